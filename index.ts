@@ -9,45 +9,20 @@
 
 import type { OpenClawPluginApi } from "openclaw/plugin-sdk";
 import { emptyPluginConfigSchema } from "openclaw/plugin-sdk";
-import { Type } from "@sinclair/typebox";
-import { VibeIndexClient } from "./src/vibe-index-client.js";
-import type { VibeResource } from "./src/vibe-index-client.js";
-import { installSkillFromGitHub, listInstalledSkills, uninstallSkill, getInstalledSkillMeta } from "./src/skill-installer.js";
-
-function checkSecurity(skill: VibeResource): string | null {
-  if (skill.cisco_scan_result && !skill.cisco_scan_result.is_safe) {
-    return `BLOCKED: "${skill.name}" failed security scan. Severity: ${skill.cisco_scan_result.max_severity}. See https://vibeindex.ai`;
-  }
-  if (skill.security_score !== null && skill.security_score >= 25) {
-    return `BLOCKED: "${skill.name}" has high security risk (score: ${skill.security_score}). See https://vibeindex.ai`;
-  }
-  return null;
-}
-
-function formatSecurityBadge(skill: VibeResource): string {
-  if (skill.cisco_scan_result?.is_safe) return "Verified safe (Cisco scan)";
-  if (skill.security_score === 0) return "Pre-scanned (no issues)";
-  if (skill.security_score !== null && skill.security_score > 0 && skill.security_score < 25)
-    return `Minor flags (score: ${skill.security_score})`;
-  return "Scan pending";
-}
-
-function formatResource(r: VibeResource, index: number): string {
-  const stars = r.star_info?.count ?? r.stars ?? 0;
-  const badges: string[] = [];
-  if (r.badges?.official || r.is_official) badges.push("Official");
-  if (r.badges?.verified || r.is_verified) badges.push("Verified");
-  if (r.badges?.trending) badges.push("Trending");
-  const badgeStr = badges.length > 0 ? ` [${badges.join(", ")}]` : "";
-  const desc = r.description
-    ? r.description.length > 120 ? r.description.slice(0, 120) + "..." : r.description
-    : "No description";
-  let result = `${index}. ${r.name} (${r.resource_type.toUpperCase()}) - ${stars} stars${badgeStr}\n`;
-  result += `   ${desc}\n`;
-  result += `   Security: ${formatSecurityBadge(r)}\n`;
-  if (r.github_url) result += `   GitHub: ${r.github_url}\n`;
-  return result;
-}
+import { createRegistrySet } from "./src/registry.js";
+import type { RegistryConfig } from "./src/registry.js";
+import { ResponseCache } from "./src/response-cache.js";
+import { describeError } from "./src/errors.js";
+import { CACHE_DIR, POLICY_PATH } from "./src/paths.js";
+import { configureCredentials } from "./src/skill-sources.js";
+import type { HostCredential } from "./src/skill-sources.js";
+import { listInstallRequests, decideInstallRequest, recordRequestOutcome } from "./src/approvals.js";
+import { createToolContext, createVibeClawTools, runApprovedRequest } from "./src/tools.js";
+import { formatInstallRequest, formatSuggestions, requestLabel } from "./src/format.js";
+import { listInstalledSkills } from "./src/skill-installer.js";
+import { AutoRecommender } from "./src/recommender.js";
+import { DEFAULT_BLOCK_SEVERITY } from "./src/security-scanner.js";
+import type { Severity } from "./src/security-scanner.js";
 
 const vibeClawPlugin = {
   id: "vibeclaw",
@@ -59,159 +34,107 @@ const vibeClawPlugin = {
   register(api: OpenClawPluginApi) {
     const pluginConfig = (api.pluginConfig ?? {}) as Record<string, unknown>;
     const apiKey = pluginConfig.apiKey as string | undefined;
-    const client = new VibeIndexClient(apiKey);
+    const offline = (pluginConfig.offline as boolean) ?? false;
+    const registries = (pluginConfig.registries as RegistryConfig[] | undefined) ?? [{ id: "vibeindex", type: "vibeindex" }];
+    const client = createRegistrySet(registries, {
+      apiKey,
+      cache: new ResponseCache(CACHE_DIR),
+      offline,
+      resolvePath: api.resolvePath,
+    });
     const searchOnly = (pluginConfig.searchOnly as boolean) ?? false;
     const allowedPublishers = (pluginConfig.allowedPublishers as string[]) ?? null;
-
-    // vibeclaw_search
-    api.registerTool({
-      name: "vibeclaw_search",
-      description:
-        "Search the Vibe Index ecosystem (93,600+ skills, plugins, MCP servers) for capabilities. " +
-        "Use when the user needs something you cannot do, or asks about available tools.",
-      parameters: Type.Object({
-        query: Type.String({ description: "Search query (e.g., 'email', 'calendar', 'weather')" }),
-        type: Type.Optional(Type.Union([
-          Type.Literal("skill"), Type.Literal("plugin"), Type.Literal("mcp"), Type.Literal("marketplace"),
-        ])),
-        limit: Type.Optional(Type.Number({ description: "Results count (1-10, default 5)" })),
-      }),
-      async execute(_id: string, params: { query: string; type?: string; limit?: number }) {
-        try {
-          const result = await client.search(params.query, { type: params.type, limit: params.limit ?? 5 });
-          if (!result.success || result.data.length === 0) {
-            return { content: [{ type: "text" as const, text: `No results for "${params.query}" in Vibe Index.` }] };
-          }
-          const total = result.pagination?.total ?? result.data.length;
-          let output = `Found ${total} results for "${params.query}" in Vibe Index:\n\n`;
-          output += result.data.map((r, i) => formatResource(r, i + 1)).join("\n");
-          output += `\nUse vibeclaw_install to install any skill.`;
-          return { content: [{ type: "text" as const, text: output }] };
-        } catch (err) {
-          return { content: [{ type: "text" as const, text: `Error: ${(err as Error).message}` }] };
-        }
-      },
+    const policyPath = pluginConfig.policyFile ? api.resolvePath(pluginConfig.policyFile as string) : POLICY_PATH;
+    const scanThreshold = (pluginConfig.scanThreshold as Severity) ?? DEFAULT_BLOCK_SEVERITY;
+    const maxResults = Math.min(Math.max(Math.floor((pluginConfig.maxResults as number) ?? 5), 1), 10);
+    const autoRecommend = (pluginConfig.autoRecommend as boolean) ?? false;
+    const maxSuggestions = Math.max(Math.floor((pluginConfig.maxSuggestions as number) ?? 3), 1);
+    const requireApproval = (pluginConfig.requireApproval as boolean) ?? false;
+    const approvalTtlMinutes = Number(pluginConfig.approvalTtlMinutes ?? 60);
+    const approvalTtlMs = (Number.isFinite(approvalTtlMinutes) ? Math.max(approvalTtlMinutes, 1) : 60) * 60_000;
+    configureCredentials({
+      githubToken: pluginConfig.githubToken as string | undefined,
+      hosts: pluginConfig.hostCredentials as Record<string, HostCredential> | undefined,
     });
+    const recommender = new AutoRecommender(client, { maxResults, maxPerSession: maxSuggestions });
+    const sessionOf = (ctx: { sessionKey?: string; sessionId?: string }) => ctx.sessionKey ?? ctx.sessionId ?? "default";
 
-    // vibeclaw_install
-    api.registerTool({
-      name: "vibeclaw_install",
-      description:
-        "Install a skill from Vibe Index into OpenClaw. Downloads SKILL.md from GitHub to ~/.openclaw/skills/.",
-      parameters: Type.Object({
-        query: Type.String({ description: "Skill name or search query" }),
-        force: Type.Optional(Type.Boolean({ description: "Reinstall if exists" })),
-      }),
-      async execute(_id: string, params: { query: string; force?: boolean }) {
-        if (searchOnly) {
-          return { content: [{ type: "text" as const, text: "Installation disabled (search-only mode)." }] };
-        }
-        try {
-          const searchResult = await client.search(params.query, { type: "skill", limit: 1 });
-          if (!searchResult.success || searchResult.data.length === 0) {
-            return { content: [{ type: "text" as const, text: `Skill "${params.query}" not found in Vibe Index.` }] };
-          }
-          const skill = searchResult.data[0];
-          if (!skill.github_owner || !skill.github_repo) {
-            return { content: [{ type: "text" as const, text: `"${skill.name}" has no GitHub repo.` }] };
-          }
-          if (allowedPublishers?.length) {
-            const allowed = allowedPublishers.map(p => p.toLowerCase());
-            if (!allowed.includes((skill.github_owner).toLowerCase())) {
-              return { content: [{ type: "text" as const, text: `BLOCKED: "${skill.github_owner}" not in allowlist.` }] };
-            }
-          }
-          const sec = checkSecurity(skill);
-          if (sec) return { content: [{ type: "text" as const, text: sec }] };
-          const result = await installSkillFromGitHub(skill.github_owner, skill.github_repo, skill.slug || skill.name, { force: params.force });
-          if (!result.success) return { content: [{ type: "text" as const, text: `Install failed: ${result.error}` }] };
-          if (result.alreadyInstalled) return { content: [{ type: "text" as const, text: `"${skill.name}" already installed. Use force to reinstall.` }] };
-          return { content: [{ type: "text" as const, text: `Installed "${result.skillName}"!\n  Path: ${result.installPath}\n  Stars: ${skill.stars}\n  Security: ${formatSecurityBadge(skill)}\n\nAvailable on next session.` }] };
-        } catch (err) {
-          return { content: [{ type: "text" as const, text: `Error: ${(err as Error).message}` }] };
-        }
-      },
+    const tools = createToolContext({
+      client,
+      config: { searchOnly, offline, allowedPublishers, policyPath, scanThreshold, maxResults, requireApproval, approvalTtlMs },
+      runtimeConfig: api.runtime.config,
     });
+    for (const tool of createVibeClawTools(tools)) api.registerTool(tool);
 
-    // vibeclaw_trending
-    api.registerTool({
-      name: "vibeclaw_trending",
-      description: "Show trending skills/plugins/MCP servers from Vibe Index.",
-      parameters: Type.Object({
-        period: Type.Optional(Type.Union([Type.Literal("day"), Type.Literal("week"), Type.Literal("month")])),
-        type: Type.Optional(Type.Union([Type.Literal("skill"), Type.Literal("plugin"), Type.Literal("mcp"), Type.Literal("marketplace")])),
-        limit: Type.Optional(Type.Number()),
-      }),
-      async execute(_id: string, params: { period?: string; type?: string; limit?: number }) {
-        try {
-          const result = await client.trending({ period: (params.period as "day"|"week"|"month") ?? "week", type: params.type, limit: params.limit ?? 5 });
-          if (!result.success || result.data.length === 0) return { content: [{ type: "text" as const, text: "No trending data." }] };
-          const p = params.period === "day" ? "today" : params.period === "month" ? "this month" : "this week";
-          let output = `Trending on Vibe Index ${p}:\n\n`;
-          result.data.forEach((r, i) => { output += formatResource(r, i + 1) + "\n"; });
-          return { content: [{ type: "text" as const, text: output }] };
-        } catch (err) {
-          return { content: [{ type: "text" as const, text: `Error: ${(err as Error).message}` }] };
-        }
-      },
-    });
+    // Auto-recommend: look for missing capabilities after each tool call and at the end of each turn
+    if (autoRecommend) {
+      api.on("after_tool_call", (event, ctx) => {
+        // Searched in the background; the results are picked up by the next prompt
+        void recommender.onToolCall(event.toolName, event.result, event.error, sessionOf(ctx));
+      });
+      api.on("agent_end", async (event, ctx) => {
+        const installed = await listInstalledSkills().catch(() => []);
+        await recommender.onAgentEnd(event.messages, sessionOf(ctx), installed);
+      });
+      api.on("session_end", (_event, ctx) => recommender.endSession(sessionOf(ctx)));
+    }
 
-    // vibeclaw_manage
-    api.registerTool({
-      name: "vibeclaw_manage",
-      description: "List or uninstall VibeClaw-installed skills.",
-      parameters: Type.Object({
-        action: Type.Union([Type.Literal("list"), Type.Literal("uninstall")]),
-        skillName: Type.Optional(Type.String()),
-      }),
-      async execute(_id: string, params: { action: string; skillName?: string }) {
-        if (params.action === "list") {
-          const skills = await listInstalledSkills();
-          if (skills.length === 0) return { content: [{ type: "text" as const, text: "No VibeClaw-installed skills." }] };
-          return { content: [{ type: "text" as const, text: `VibeClaw skills (${skills.length}):\n${skills.map(s => `  - ${s}`).join("\n")}` }] };
-        }
-        if (params.action === "uninstall" && params.skillName) {
-          const removed = await uninstallSkill(params.skillName);
-          return { content: [{ type: "text" as const, text: removed ? `Uninstalled "${params.skillName}".` : `"${params.skillName}" not found.` }] };
-        }
-        return { content: [{ type: "text" as const, text: "Specify action and skillName." }] };
-      },
+    // System prompt injection
+    api.on("before_prompt_build", async (_event, ctx) => {
+      const lines = [
+        "\n## VibeClaw - Skill Discovery (Powered by Vibe Index)\n",
+        "You have these VibeClaw tools: vibeclaw_search, vibeclaw_install, vibeclaw_update, vibeclaw_trending, vibeclaw_manage, vibeclaw_audit, vibeclaw_history.",
+        "When you cannot fulfill a request, use vibeclaw_search to find a skill and vibeclaw_install to install it.",
+        "When asked about trending tools, use vibeclaw_trending.\n",
+      ];
+      if (requireApproval && !searchOnly) {
+        lines.splice(3, 0, "Installs, updates, adoptions, rollbacks, enables and lockfile syncs need the user's approval: the tools only create a request. Show it to the user and wait; never approve it yourself.");
+      }
+      const recommendations = autoRecommend ? await recommender.take(sessionOf(ctx)) : [];
+      if (recommendations.length > 0) lines.push(formatSuggestions(recommendations));
+      return { prependContext: lines.join("\n") };
     });
 
-    // vibeclaw_audit
-    api.registerTool({
-      name: "vibeclaw_audit",
-      description: "Audit VibeClaw-installed skills against latest Vibe Index security data.",
-      parameters: Type.Object({}),
-      async execute() {
+    // Approval decisions come from the user directly, never from the agent
+    api.registerCommand({
+      name: "vibeclaw",
+      description: "Review VibeClaw approval requests (installs, updates, adoptions, rollbacks, enables, syncs): /vibeclaw pending, /vibeclaw approve <id>, /vibeclaw deny <id> [reason]; /vibeclaw dismiss <id> hides a suggested skill for good",
+      acceptsArgs: true,
+      async handler(ctx) {
+        const [command, id, ...rest] = (ctx.args ?? "").trim().split(/\s+/);
+        const decidedBy = ctx.senderId ?? ctx.from ?? ctx.channel;
         try {
-          const skills = await listInstalledSkills();
-          if (skills.length === 0) return { content: [{ type: "text" as const, text: "No skills to audit." }] };
-          const lines: string[] = [];
-          for (const name of skills) {
-            const res = await client.search(name, { type: "skill", limit: 1 });
-            if (!res.success || res.data.length === 0) { lines.push(`${name}: not found`); continue; }
-            const issue = checkSecurity(res.data[0]);
-            lines.push(issue ? `${name}: FLAGGED` : `${name}: safe (${formatSecurityBadge(res.data[0])})`);
+          if (!command || command === "pending" || command === "requests") {
+            const requests = await listInstallRequests({ limit: 5 });
+            return { text: requests.length ? requests.map(formatInstallRequest).join("\n") : "No install requests." };
+          }
+          if ((command === "approve" || command === "deny") && id) {
+            const decided = await decideInstallRequest(id, command === "approve" ? "approved" : "denied", decidedBy, rest.join(" ") || undefined);
+            if ("error" in decided) return { text: decided.error };
+            const { request } = decided;
+            if (request.status === "denied") return { text: `Denied ${requestLabel(request)} request ${id} (${request.name}).` };
+            if (searchOnly || offline) {
+              const outcome = searchOnly ? "Installation disabled (search-only mode)." : "Installation unavailable in offline mode.";
+              await recordRequestOutcome(id, outcome);
+              return { text: outcome };
+            }
+            const message = await runApprovedRequest(tools, request, decidedBy);
+            await recordRequestOutcome(id, message.split("\n")[0]);
+            return { text: `Approved ${requestLabel(request)} request ${id}.\n\n${message}` };
           }
-          return { content: [{ type: "text" as const, text: `Audit (${skills.length} skills):\n${lines.join("\n")}` }] };
+          if (command === "dismiss" && id) {
+            await recommender.dismiss(id);
+            return { text: `VibeClaw won't suggest ${id} again.` };
+          }
+          return { text: "Usage: /vibeclaw pending | approve <id> | deny <id> [reason] | dismiss <id>" };
         } catch (err) {
-          return { content: [{ type: "text" as const, text: `Error: ${(err as Error).message}` }] };
+          if (id) await recordRequestOutcome(id, `Error: ${describeError(err)}`).catch(() => {});
+          return { text: `Error: ${describeError(err)}` };
         }
       },
     });
 
-    // System prompt injection
-    api.on("before_prompt_build", () => ({
-      prependContext: [
-        "\n## VibeClaw - Skill Discovery (Powered by Vibe Index)\n",
-        "You have these VibeClaw tools: vibeclaw_search, vibeclaw_install, vibeclaw_trending, vibeclaw_manage, vibeclaw_audit.",
-        "When you cannot fulfill a request, use vibeclaw_search to find a skill and vibeclaw_install to install it.",
-        "When asked about trending tools, use vibeclaw_trending.\n",
-      ].join("\n"),
-    }));
-
-    api.logger.info("VibeClaw plugin registered - 5 tools available (search, install, trending, manage, audit)");
+    api.logger.info("VibeClaw plugin registered - 7 tools available (search, install, update, trending, manage, audit, history)");
   },
 };
 
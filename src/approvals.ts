@@ -0,0 +1,181 @@
+/**
+ * VibeClaw Install Approvals
+ * Pending requests created in approval mode by vibeclaw_install (and by updates, adoptions,
+ * rollbacks, enables and lockfile syncs), and the decisions made on them, kept in
+ * vibeclaw-approvals.json under the state dir as an audit trail.
+ */
+
+import { promises as fs } from "node:fs";
+import { randomBytes } from "node:crypto";
+import { APPROVALS_PATH } from "./paths.js";
+
+/** Decided and expired requests kept in the trail; older ones are dropped. */
+const MAX_TRAIL = 200;
+
+export type InstallRequestStatus = "pending" | "approved" | "denied" | "expired";
+
+/** What approving the request does; requests without one are installs. */
+export type RequestAction = "install" | "update" | "adopt" | "rollback" | "enable" | "sync";
+
+export interface InstallRequest {
+  id: string;
+  status: InstallRequestStatus;
+  createdAt: string;
+  expiresAt: string;
+  action?: RequestAction;
+  /** vibeclaw_install parameters, replayed when the request is approved. */
+  params: {
+    query?: string;
+    id?: string;
+    type?: "skill" | "plugin" | "mcp" | "marketplace";
+    source?: string;
+    path?: string;
+    name?: string;
+    force?: boolean;
+  };
+  /** Revision that was previewed; an approved skill is installed at exactly this commit. */
+  pin?: { ref: string; commit: string; path: string };
+  /** Vibe Index id and source spec the request was resolved to; approval acts on exactly these. */
+  resourceId?: string;
+  source?: string;
+  /** Syncs: SHA-256 of the lockfile that was previewed. */
+  lockfileHash?: string;
+  name: string;
+  type: string;
+  publisher: string | null;
+  security: string;
+  /** Start of SKILL.md, the install command for MCP servers and plugins, or what the change does. */
+  preview: string;
+  /** Dependencies that would be installed along with it. */
+  dependencies: string[];
+  decidedAt?: string;
+  /** Sender that approved or denied the request. */
+  decidedBy?: string;
+  reason?: string;
+  /** First line of the install result after approval. */
+  outcome?: string;
+}
+
+/**
+ * Every stored request; a missing file has none. Throws when the file can't be read or parsed,
+ * since writing over it would erase the audit trail.
+ */
+async function readRequests(): Promise<InstallRequest[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(APPROVALS_PATH, "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw new Error(`Could not read ${APPROVALS_PATH}: ${(err as Error).message}`);
+  }
+  let parsed: { requests?: unknown } | null;
+  try {
+    parsed = JSON.parse(content) as { requests?: unknown } | null;
+  } catch (err) {
+    throw new Error(`${APPROVALS_PATH} is not valid JSON (${(err as Error).message}). Fix or remove it and try again.`);
+  }
+  if (!parsed || typeof parsed !== "object" || (parsed.requests !== undefined && !Array.isArray(parsed.requests))) {
+    throw new Error(`${APPROVALS_PATH} is not a VibeClaw approvals file. Fix or remove it and try again.`);
+  }
+  return (parsed.requests ?? []) as InstallRequest[];
+}
+
+async function writeRequests(requests: InstallRequest[]): Promise<void> {
+  const pending = requests.filter(request => request.status === "pending");
+  const trail = requests.filter(request => request.status !== "pending").slice(-MAX_TRAIL);
+  const kept = requests.filter(request => pending.includes(request) || trail.includes(request));
+  await fs.writeFile(APPROVALS_PATH, JSON.stringify({ requests: kept }, null, 2) + "\n", "utf-8");
+}
+
+/**
+ * Mark pending requests past their expiry as expired. Returns whether anything changed.
+ */
+function expire(requests: InstallRequest[], now = Date.now()): boolean {
+  let changed = false;
+  for (const request of requests) {
+    if (request.status === "pending" && Date.parse(request.expiresAt) <= now) {
+      request.status = "expired";
+      request.decidedAt = request.expiresAt;
+      changed = true;
+    }
+  }
+  return changed;
+}
+
+async function loadRequests(): Promise<InstallRequest[]> {
+  const requests = await readRequests();
+  if (expire(requests)) await writeRequests(requests);
+  return requests;
+}
+
+/**
+ * Record a new pending request. An identical request (same action, name, type, resource id,
+ * source and commit) that is still pending is returned instead of creating a second one.
+ */
+export async function createInstallRequest(
+  fields: Omit<InstallRequest, "id" | "status" | "createdAt" | "expiresAt">,
+  ttlMs: number,
+): Promise<InstallRequest> {
+  const requests = await loadRequests();
+  const existing = requests.find(request => request.status === "pending"
+    && (request.action ?? "install") === (fields.action ?? "install")
+    && request.name === fields.name
+    && request.type === fields.type
+    && request.resourceId === fields.resourceId
+    && request.source === fields.source
+    && request.pin?.commit === fields.pin?.commit);
+  if (existing) return existing;
+
+  const now = Date.now();
+  const request: InstallRequest = {
+    id: randomBytes(4).toString("hex"),
+    status: "pending",
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttlMs).toISOString(),
+    ...fields,
+  };
+  requests.push(request);
+  await writeRequests(requests);
+  return request;
+}
+
+/**
+ * Pending requests first (oldest first), then the most recent decisions.
+ */
+export async function listInstallRequests(opts?: { limit?: number }): Promise<InstallRequest[]> {
+  const requests = await loadRequests();
+  const pending = requests.filter(request => request.status === "pending");
+  const decided = requests.filter(request => request.status !== "pending").reverse();
+  return [...pending, ...decided.slice(0, opts?.limit ?? 20)];
+}
+
+/**
+ * Approve or deny a pending request. Fails when the request doesn't exist, was already
+ * decided, or has expired.
+ */
+export async function decideInstallRequest(
+  id: string,
+  decision: "approved" | "denied",
+  decidedBy: string,
+  reason?: string,
+): Promise<{ request: InstallRequest } | { error: string }> {
+  const requests = await loadRequests();
+  const request = requests.find(candidate => candidate.id === id);
+  if (!request) return { error: `No install request "${id}".` };
+  if (request.status !== "pending") return { error: `Install request ${id} is already ${request.status}.` };
+
+  request.status = decision;
+  request.decidedAt = new Date().toISOString();
+  request.decidedBy = decidedBy;
+  request.reason = reason;
+  await writeRequests(requests);
+  return { request };
+}
+
+export async function recordRequestOutcome(id: string, outcome: string): Promise<void> {
+  const requests = await readRequests();
+  const request = requests.find(candidate => candidate.id === id);
+  if (!request) return;
+  request.outcome = outcome;
+  await writeRequests(requests);
+}
@@ -0,0 +1,86 @@
+/**
+ * Minimal unified diff for showing SKILL.md changes to the agent.
+ * Line-based LCS; large inputs fall back to a whole-file replacement hunk.
+ */
+
+const MAX_LCS_CELLS = 4_000_000;
+
+type DiffOp = { kind: " " | "-" | "+"; line: string };
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [
+      ...a.map(line => ({ kind: "-" as const, line })),
+      ...b.map(line => ({ kind: "+" as const, line })),
+    ];
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ kind: " ", line: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ kind: "-", line: a[i++] });
+    } else {
+      ops.push({ kind: "+", line: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ kind: "-", line: a[i++] });
+  while (j < b.length) ops.push({ kind: "+", line: b[j++] });
+  return ops;
+}
+
+/**
+ * Produce a unified diff (like `diff -u`) between two texts.
+ * Returns an empty string when they are identical.
+ */
+export function unifiedDiff(oldText: string, newText: string, oldLabel: string, newLabel: string, context = 3): string {
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  const changed = ops.map((op, idx) => (op.kind !== " " ? idx : -1)).filter(idx => idx >= 0);
+  if (changed.length === 0) return "";
+
+  // Group changes whose context windows touch into hunks
+  const hunks: Array<[number, number]> = [];
+  for (const idx of changed) {
+    const start = Math.max(0, idx - context);
+    const end = Math.min(ops.length, idx + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) last[1] = end;
+    else hunks.push([start, end]);
+  }
+
+  const out = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  for (const [start, end] of hunks) {
+    let oldStart = 1;
+    let newStart = 1;
+    for (let k = 0; k < start; k++) {
+      if (ops[k].kind !== "+") oldStart++;
+      if (ops[k].kind !== "-") newStart++;
+    }
+    const slice = ops.slice(start, end);
+    const oldCount = slice.filter(op => op.kind !== "+").length;
+    const newCount = slice.filter(op => op.kind !== "-").length;
+    out.push(`@@ -${oldCount ? oldStart : oldStart - 1},${oldCount} +${newCount ? newStart : newStart - 1},${newCount} @@`);
+    for (const op of slice) out.push(`${op.kind}${op.line}`);
+  }
+  return out.join("\n");
+}
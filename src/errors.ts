@@ -0,0 +1,93 @@
+/**
+ * VibeClaw Errors
+ * Typed Vibe Index API errors, so tools can tell the user what to do instead of echoing a status code.
+ */
+
+export class VibeIndexError extends Error {
+  readonly status: number | undefined;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "VibeIndexError";
+    this.status = status;
+  }
+}
+
+/** 401/403: missing, invalid or revoked API key. */
+export class VibeIndexAuthError extends VibeIndexError {
+  constructor(status: number, statusText: string) {
+    super(`Vibe Index API error: ${status} ${statusText}`, status);
+    this.name = "VibeIndexAuthError";
+  }
+}
+
+/** 429 after retries were exhausted or the server asked us to wait too long. */
+export class VibeIndexRateLimitError extends VibeIndexError {
+  readonly retryAfterMs: number | undefined;
+
+  constructor(retryAfterMs?: number) {
+    super("Vibe Index API error: 429 Too Many Requests", 429);
+    this.name = "VibeIndexRateLimitError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class VibeIndexNotFoundError extends VibeIndexError {
+  constructor(endpoint: string) {
+    super(`Vibe Index API error: 404 Not Found (${endpoint})`, 404);
+    this.name = "VibeIndexNotFoundError";
+  }
+}
+
+/** 5xx after retries were exhausted. */
+export class VibeIndexServerError extends VibeIndexError {
+  constructor(status: number, statusText: string) {
+    super(`Vibe Index API error: ${status} ${statusText}`, status);
+    this.name = "VibeIndexServerError";
+  }
+}
+
+/** The request never got a response: DNS, connection or timeout. */
+export class VibeIndexNetworkError extends VibeIndexError {
+  readonly timedOut: boolean;
+
+  constructor(message: string, timedOut: boolean) {
+    super(message);
+    this.name = "VibeIndexNetworkError";
+    this.timedOut = timedOut;
+  }
+}
+
+/**
+ * Map a non-2xx response to the matching error class.
+ */
+export function errorForStatus(status: number, statusText: string, endpoint: string, retryAfterMs?: number): VibeIndexError {
+  if (status === 401 || status === 403) return new VibeIndexAuthError(status, statusText);
+  if (status === 404) return new VibeIndexNotFoundError(endpoint);
+  if (status === 429) return new VibeIndexRateLimitError(retryAfterMs);
+  if (status >= 500) return new VibeIndexServerError(status, statusText);
+  return new VibeIndexError(`Vibe Index API error: ${status} ${statusText}`, status);
+}
+
+/**
+ * Turn any error into a message that tells the user what to do next.
+ */
+export function describeError(err: unknown): string {
+  if (err instanceof VibeIndexAuthError) {
+    return "Vibe Index rejected the API key. Check plugins.entries.vibeclaw.config.apiKey " +
+      "(keys look like vibe_live_*; get one at https://vibeindex.ai/developer).";
+  }
+  if (err instanceof VibeIndexRateLimitError) {
+    const wait = err.retryAfterMs ? ` Try again in ${Math.ceil(err.retryAfterMs / 1000)}s.` : " Try again shortly.";
+    return `Vibe Index rate limit reached.${wait} Setting an apiKey raises the limit.`;
+  }
+  if (err instanceof VibeIndexServerError) {
+    return `Vibe Index is having problems (${err.status}). Try again later.`;
+  }
+  if (err instanceof VibeIndexNetworkError) {
+    return err.timedOut
+      ? "Vibe Index did not respond in time. Check your connection or try again later."
+      : `Could not reach Vibe Index (${err.message}). Check your connection, or enable offline mode to use cached results.`;
+  }
+  return (err as Error).message;
+}
@@ -0,0 +1,193 @@
+/**
+ * VibeClaw Formatting
+ * Plain-text renderings of resources, install results, plans and requests shared by the
+ * tools, the /vibeclaw command and the prompt hook.
+ */
+
+import type { VibeResource, CacheInfo } from "./vibe-index-client.js";
+import type { InstallResult, SkillMeta } from "./skill-installer.js";
+import type { InstallPlan } from "./install-plan.js";
+import type { InstallRequest } from "./approvals.js";
+import type { HistoryEvent } from "./history.js";
+import type { SearchFilters } from "./search.js";
+import type { Recommendation } from "./recommender.js";
+import { parseSkillSource, sourcePublisher } from "./skill-sources.js";
+import { formatFindings } from "./security-scanner.js";
+import { DEFAULT_MAX_SECURITY_SCORE } from "./policy.js";
+
+/**
+ * Short security label. Scores above the default policy limit are called flagged whatever the
+ * configured limit, so a policy that allows them doesn't make them look unscanned.
+ */
+export function formatSecurityBadge(skill: VibeResource): string {
+  if (skill.cisco_scan_result?.is_safe) return "Verified safe (Cisco scan)";
+  if (skill.security_score === 0) return "Pre-scanned (no issues)";
+  if (skill.security_score !== null && skill.security_score > 0) {
+    return skill.security_score <= DEFAULT_MAX_SECURITY_SCORE
+      ? `Minor flags (score: ${skill.security_score})`
+      : `Flagged (score: ${skill.security_score})`;
+  }
+  return "Scan pending";
+}
+
+export function formatScanSummary(result: InstallResult): string {
+  const warnings = result.warnings?.length ? `\n  Warnings:\n${result.warnings.map(w => `    - ${w}`).join("\n")}` : "";
+  if (!result.scan?.findings.length) return `Local scan: no issues${warnings}`;
+  return `Local scan: ${result.scan.findings.length} finding(s)\n${formatFindings(result.scan.findings)}${warnings}`;
+}
+
+/**
+ * Exact install identifier for a resource: owner/repo/slug when it lives on GitHub.
+ */
+export function resourceIdentifier(r: VibeResource): string | null {
+  return r.github_owner && r.github_repo && r.slug ? `${r.github_owner}/${r.github_repo}/${r.slug}` : null;
+}
+
+export function formatCandidate(r: VibeResource, index: number): string {
+  const stars = r.star_info?.count ?? r.stars ?? 0;
+  const ident = resourceIdentifier(r);
+  let result = `${index}. ${r.name} (${r.resource_type.toUpperCase()}) by ${r.github_owner ?? "unknown publisher"} - ${stars} stars\n`;
+  result += `   Security: ${formatSecurityBadge(r)}\n`;
+  result += `   ID: ${r.id}${ident ? ` | ${ident}` : ""}\n`;
+  if (r.description) result += `   ${r.description.length > 120 ? r.description.slice(0, 120) + "..." : r.description}\n`;
+  return result;
+}
+
+export function formatCacheNote(cached?: CacheInfo): string {
+  if (!cached) return "";
+  const minutes = Math.round(cached.ageMs / 60000);
+  const age = minutes < 60 ? `${minutes}m` : minutes < 1440 ? `${Math.round(minutes / 60)}h` : `${Math.round(minutes / 1440)}d`;
+  const why = cached.reason === "offline" ? "offline mode" : "Vibe Index unreachable";
+  return `[Cached result from ${age} ago - ${why}]\n`;
+}
+
+/** e.g. `tags weather, api; 100+ stars; official; publisher acme-*`. */
+export function formatSearchFilters(filters: SearchFilters): string {
+  const parts: string[] = [];
+  if (filters.tags?.length) parts.push(`tags ${filters.tags.join(", ")}`);
+  if (filters.minStars !== undefined) parts.push(`${filters.minStars}+ stars`);
+  if (filters.official) parts.push("official");
+  if (filters.verified) parts.push("verified");
+  if (filters.publisher) parts.push(`publisher ${filters.publisher}`);
+  if (filters.maxSecurityScore !== undefined) parts.push(`security score <= ${filters.maxSecurityScore}`);
+  if (filters.scannedOnly) parts.push("scanned");
+  return parts.join("; ");
+}
+
+export function formatResource(r: VibeResource, index: number): string {
+  const stars = r.star_info?.count ?? r.stars ?? 0;
+  const badges: string[] = [];
+  if (r.badges?.official || r.is_official) badges.push("Official");
+  if (r.badges?.verified || r.is_verified) badges.push("Verified");
+  if (r.badges?.trending) badges.push("Trending");
+  const badgeStr = badges.length > 0 ? ` [${badges.join(", ")}]` : "";
+  const desc = r.description
+    ? r.description.length > 120 ? r.description.slice(0, 120) + "..." : r.description
+    : "No description";
+  let result = `${index}. ${r.name} (${r.resource_type.toUpperCase()}) - ${stars} stars${badgeStr}\n`;
+  result += `   ${desc}\n`;
+  result += `   Security: ${formatSecurityBadge(r)}\n`;
+  if (r.github_url) result += `   GitHub: ${r.github_url}\n`;
+  if (r.registry && (r.registry !== "vibeindex" || r.trust !== "standard")) result += `   Registry: ${r.registry} (${r.trust})\n`;
+  result += `   ID: ${r.id}${resourceIdentifier(r) ? ` | ${resourceIdentifier(r)}` : ""}\n`;
+  return result;
+}
+
+export function formatInstallPlan(plan: InstallPlan): string {
+  const lines = plan.items.map((item, i) => {
+    const security = item.resource ? formatSecurityBadge(item.resource) : "no registry data (direct source)";
+    const status = item.installed ? "already installed" : item.blocked ? "BLOCKED" : "install";
+    let line = `  ${i + 1}. ${item.name} (${item.type.toUpperCase()})${item.requiredBy ? ` for ${item.requiredBy}` : ""} - ${security} - ${status}`;
+    for (const warning of item.prepared?.warnings ?? []) line += `\n       ! ${warning}`;
+    return line;
+  });
+  return `Install plan (${plan.items.length} items, dependencies first):\n${lines.join("\n")}`;
+}
+
+export function formatSkillInfo(name: string, meta: SkillMeta, disabled: boolean, backup: SkillMeta | null): string {
+  const source = parseSkillSource(meta.source);
+  const status = [disabled ? "disabled" : "enabled", ...(meta.pinned ? ["pinned"] : [])].join(", ");
+  const lines = [
+    `${name} (${status})`,
+    `  Source: ${meta.source}${meta.path ? ` (${meta.path})` : ""}`,
+    `  Publisher: ${(source && sourcePublisher(source)) ?? "local"}`,
+    `  Commit: ${meta.commit?.slice(0, 7) ?? "unknown"}${meta.ref ? ` (${meta.ref})` : ""}`,
+    `  ${meta.adopted ? "Adopted" : "Installed"}: ${meta.installedAt}`,
+    `  Files: ${meta.files?.length ?? "not recorded"}`,
+  ];
+  if (meta.resourceId) lines.push(`  Vibe Index id: ${meta.resourceId}`);
+  lines.push(meta.lastAudit
+    ? `  Last audit: ${meta.lastAudit.status} on ${meta.lastAudit.at} (${meta.lastAudit.summary})`
+    : "  Last audit: never");
+  if (backup) lines.push(`  Previous version: ${backup.commit?.slice(0, 7) ?? "unknown"}, installed ${backup.installedAt} (restore with rollback)`);
+  return lines.join("\n");
+}
+
+/** "install", "update", ... as used in "Approved update request <id>". */
+export function requestLabel(request: InstallRequest): string {
+  return request.action ?? "install";
+}
+
+export function formatInstallRequest(request: InstallRequest): string {
+  const action = request.action && request.action !== "install" ? `${request.action} ` : "";
+  let text = `[${request.id}] ${action}${request.name} (${request.type.toUpperCase()}) - ${request.status}`;
+  if (request.status === "pending") text += `, expires ${request.expiresAt}`;
+  else if (request.decidedBy) text += ` by ${request.decidedBy} at ${request.decidedAt}`;
+  if (request.reason) text += ` (${request.reason})`;
+  if (request.outcome) text += `\n  Outcome: ${request.outcome}`;
+  return text;
+}
+
+/** A new request as shown to the agent, which has to pass it on to the user. */
+export function formatPendingRequest(request: InstallRequest): string {
+  const label = requestLabel(request);
+  let text = `${label[0].toUpperCase()}${label.slice(1)} request ${request.id} is waiting for approval. `;
+  text += `${label === "install" ? "Nothing was installed" : "Nothing was changed"}.\n`;
+  text += `  ${request.name} (${request.type.toUpperCase()})${request.pin ? ` @ ${request.pin.commit.slice(0, 7)}` : ""}\n`;
+  text += `  Publisher: ${request.publisher ?? "local"}\n  Security: ${request.security}\n`;
+  if (request.dependencies.length) text += `  Also installs: ${request.dependencies.join(", ")}\n`;
+  text += `\n${request.preview}\n\n`;
+  text += `Show this to the user. Only they can approve it, by sending /vibeclaw approve ${request.id} `;
+  text += `(or /vibeclaw deny ${request.id}). The request expires at ${request.expiresAt}.`;
+  return text;
+}
+
+export function formatInstallFailure(result: InstallResult): string {
+  const findings = result.scan?.findings.length ? `\n${formatFindings(result.scan.findings)}` : "";
+  return `Install failed: ${result.error}${findings}`;
+}
+
+export function formatHistoryEvent(event: HistoryEvent): string {
+  if (event.action === "search") {
+    return `${event.at} search "${event.query}" - ${event.results?.length ?? 0} result(s)${event.results?.length ? `: ${event.results.join(", ")}` : ""}`;
+  }
+  let text = `${event.at} ${event.action} ${event.name}${event.type ? ` (${event.type.toUpperCase()})` : ""} by ${event.actor}`;
+  if (event.action === "block") text += ` - ${event.gate} check on ${event.attempted}`;
+  const details = [
+    event.source ?? (event.publisher ? `publisher ${event.publisher}` : null),
+    event.previousCommit !== undefined ? `${event.previousCommit?.slice(0, 7) ?? "unpinned"} -> ${event.commit?.slice(0, 7) ?? "?"}` : event.commit ? `commit ${event.commit.slice(0, 7)}` : null,
+    event.requestId ? `request ${event.requestId}` : null,
+  ].filter(Boolean);
+  if (details.length) text += `\n  ${details.join(" | ")}`;
+  if (event.fromSearch) text += `\n  From search: "${event.fromSearch}"`;
+  if (event.action !== "block" && event.action !== "audit" && event.security) text += `\n  Allowed with security: ${event.security}`;
+  if (event.dependencies?.length) text += `\n  Also installed: ${event.dependencies.join(", ")}`;
+  for (const reason of event.reasons ?? []) text += `\n  - ${reason}`;
+  return text;
+}
+
+/** The "skills that could help" block the prompt hook shows after a capability gap. */
+export function formatSuggestions(recommendations: Recommendation[]): string {
+  const lines = [
+    "### VibeClaw: skills that could help\n",
+    "Recent turns hit a missing capability. Offer these to the user; they can hide one for good with /vibeclaw dismiss <id>.\n",
+  ];
+  for (const { query, reason, resources } of recommendations) {
+    lines.push(`For "${query}" (${reason}):`);
+    for (const r of resources) {
+      const description = r.description ? ` - ${r.description.slice(0, 80)}` : "";
+      lines.push(`- ${r.name} (${r.resource_type.toUpperCase()}, id ${r.id}, ${r.star_info?.count ?? r.stars} stars, ${formatSecurityBadge(r)})${description}`);
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,124 @@
+/**
+ * VibeClaw History
+ * Append-only event log in vibeclaw-history.jsonl under the state dir, one JSON object per line.
+ * Unlike .vibeclaw.json it outlives the skill, so it still answers who installed something and
+ * why it was allowed after the skill is gone.
+ */
+
+import { promises as fs } from "node:fs";
+import { HISTORY_PATH } from "./paths.js";
+import type { Gate } from "./install-plan.js";
+import type { PolicyAction } from "./policy.js";
+
+export type HistoryAction =
+  | "search"
+  | "install"
+  /** A check stopped an install, update or adopt; see gate and attempted. */
+  | "block"
+  /** An install request was created in approval mode. */
+  | "request"
+  | "update"
+  | "rollback"
+  | "adopt"
+  | "uninstall"
+  /** vibeclaw_audit flagged an install or found it changed. */
+  | "audit";
+
+export const HISTORY_ACTIONS: HistoryAction[] = ["search", "install", "block", "request", "update", "rollback", "adopt", "uninstall", "audit"];
+
+export interface HistoryEvent {
+  at: string;
+  action: HistoryAction;
+  /** Skill, MCP server or plugin the event is about; null for searches. */
+  name: string | null;
+  type?: string;
+  /** "agent", "lockfile", or the sender that approved an install request. */
+  actor: string;
+  /** Search query, or the query/id/source an install was asked for. */
+  query?: string;
+  /** Search results, as Vibe Index ids. */
+  results?: string[];
+  /** For installs: the earlier search that listed the resource. */
+  fromSearch?: string;
+  resourceId?: string;
+  publisher?: string | null;
+  source?: string;
+  commit?: string;
+  /** Installed commit before an update or rollback. */
+  previousCommit?: string | null;
+  /** Security badge at the time of the decision. */
+  security?: string;
+  requestId?: string;
+  /** For blocks: which check fired, and on what. */
+  gate?: Gate;
+  attempted?: PolicyAction;
+  /** Why it was blocked or flagged; the checks it passed are implied by it being allowed. */
+  reasons?: string[];
+  dependencies?: string[];
+  /** Number of local scan findings (installs, updates and audits). */
+  findings?: number;
+  /** The first line of the tool output. */
+  message: string;
+}
+
+export interface HistoryFilter {
+  /** Events about this skill, MCP server or plugin (case-insensitive). */
+  name?: string;
+  action?: HistoryAction;
+  since?: Date;
+  until?: Date;
+  /** Most recent events to return (default 50). */
+  limit?: number;
+}
+
+/**
+ * Append an event. A failed write is swallowed: the log must never fail the
+ * install or uninstall it describes, which has already happened.
+ */
+export async function recordEvent(event: Omit<HistoryEvent, "at">): Promise<void> {
+  const line = JSON.stringify({ at: new Date().toISOString(), ...event }) + "\n";
+  await fs.appendFile(HISTORY_PATH, line, "utf-8").catch(() => {});
+}
+
+/**
+ * Events matching the filter, oldest first. Lines that don't parse (a write cut short) are skipped.
+ */
+export async function readHistory(filter: HistoryFilter = {}): Promise<HistoryEvent[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(HISTORY_PATH, "utf-8");
+  } catch {
+    return [];
+  }
+  const name = filter.name?.toLowerCase();
+  const events: HistoryEvent[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    let event: HistoryEvent;
+    try {
+      event = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    if (name && event.name?.toLowerCase() !== name) continue;
+    if (filter.action && event.action !== filter.action) continue;
+    const at = Date.parse(event.at);
+    if (filter.since && at < filter.since.getTime()) continue;
+    if (filter.until && at > filter.until.getTime()) continue;
+    events.push(event);
+  }
+  return events.slice(-(filter.limit ?? 50));
+}
+
+/**
+ * Parse a time bound: an ISO date or time, or a duration back from now ("30m", "12h", "7d").
+ */
+export function parseTimeBound(value: string, now = Date.now()): Date | null {
+  const relative = /^(\d+)\s*([mhdw])$/i.exec(value.trim());
+  if (relative) {
+    const unit = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 }[relative[2].toLowerCase() as "m" | "h" | "d" | "w"];
+    return new Date(now - Number(relative[1]) * unit);
+  }
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : new Date(parsed);
+}
@@ -0,0 +1,701 @@
+/**
+ * VibeClaw Install Flow
+ * Resolves install targets and runs every check (trust, allowlist, policy, security, local scan)
+ * before anything is written, for the tools and the /vibeclaw approve command alike.
+ */
+
+import type { VibeResource } from "./vibe-index-client.js";
+import type { SkillRegistry } from "./registry.js";
+import { VibeIndexNotFoundError } from "./errors.js";
+import { prepareSkillInstall, commitSkillInstall, findInstalledSkill, rollbackSkill, uninstallSkill, getInstalledSkillMeta, compareWithSource, checkUpstreamRepo } from "./skill-installer.js";
+import type { InstallResult, PreparedSkill, UnmanagedSkill, AdoptionMatch, SkillInstallOptions } from "./skill-installer.js";
+import { parseSkillSource, formatSkillSource, sourcePublisher, defaultSkillName } from "./skill-sources.js";
+import type { SkillSource } from "./skill-sources.js";
+import { installMcpServer, registerPlugin, uninstallResource, restoreResource, isMcpServerConfigured } from "./resource-installer.js";
+import type { ConfigIO, ResourceMeta, ReplacedResource } from "./resource-installer.js";
+import { buildInstallPlan, executeInstallPlan } from "./install-plan.js";
+import type { InstallPlan, PlanHooks, PlanItemType, PlanBlock, Gate } from "./install-plan.js";
+import { loadPolicy, evaluatePolicy, formatPolicyDenial, DEFAULT_MAX_SECURITY_SCORE } from "./policy.js";
+import type { PolicyAction, PolicySubject } from "./policy.js";
+import { createInstallRequest } from "./approvals.js";
+import { recordEvent } from "./history.js";
+import type { InstallRequest, RequestAction } from "./approvals.js";
+import { scanSkillFiles, blockingFindings, formatFindings } from "./security-scanner.js";
+import type { Severity } from "./security-scanner.js";
+import { formatSecurityBadge, formatScanSummary, formatCandidate, formatInstallPlan, formatInstallFailure, formatPendingRequest } from "./format.js";
+import { summarizeResource } from "./tool-output.js";
+import type { InstallOutput, InstallStatus, SecurityDecision } from "./tool-output.js";
+
+/** Plugin settings the tools act on, resolved from plugins.entries.vibeclaw.config. */
+export interface VibeClawConfig {
+  searchOnly: boolean;
+  offline: boolean;
+  allowedPublishers: string[] | null;
+  policyPath: string;
+  scanThreshold: Severity;
+  /** Upper bound for agent-supplied result limits. */
+  maxResults: number;
+  requireApproval: boolean;
+  approvalTtlMs: number;
+}
+
+export interface InstallContext {
+  client: SkillRegistry;
+  config: VibeClawConfig;
+  /** OpenClaw config that MCP servers and plugins are written to. */
+  runtimeConfig: ConfigIO;
+}
+
+export type InstallParams = InstallRequest["params"];
+
+/** Lines of SKILL.md shown in an install request. */
+const PREVIEW_LINES = 40;
+
+/** An install that passed every check, as handed to the approval gate instead of being carried out. */
+export interface PendingInstall {
+  type: VibeResource["resource_type"];
+  name: string;
+  resource: VibeResource | null;
+  prepared?: PreparedSkill;
+  plan?: InstallPlan;
+}
+
+export interface InstallOptions {
+  gate?: (pending: PendingInstall) => Promise<InstallOutput>;
+  pin?: SkillInstallOptions["pin"];
+  /** Recorded in the history: "agent" (default), or the sender that approved the request. */
+  actor?: string;
+  requestId?: string;
+  /** Approvals: the source the request was resolved to; a resource that now points elsewhere is refused. */
+  source?: string;
+}
+
+/** Where a registry resource installs from, as recorded in install requests and MCP/plugin metadata. */
+export function registrySource(resource: VibeResource): string {
+  return resource.github_owner && resource.github_repo
+    ? `github:${resource.github_owner}/${resource.github_repo}`
+    : `vibeindex:${resource.id}`;
+}
+
+export function checkSecurity(skill: VibeResource, maxScore: number): string | null {
+  const flags = skill.security_flags?.length ? ` Flags: ${skill.security_flags.join(", ")}.` : "";
+  if (skill.cisco_scan_result && !skill.cisco_scan_result.is_safe) {
+    const { max_severity: severity, findings_count: count } = skill.cisco_scan_result;
+    return `BLOCKED: "${skill.name}" failed security scan. Severity: ${severity} (${count} finding(s)).${flags} See https://vibeindex.ai`;
+  }
+  if (skill.security_score !== null && skill.security_score > maxScore) {
+    return `BLOCKED: "${skill.name}" has high security risk (score: ${skill.security_score}).${flags} See https://vibeindex.ai`;
+  }
+  return null;
+}
+
+export function checkTrust(resource: VibeResource): string | null {
+  if (resource.trust !== "untrusted") return null;
+  return `BLOCKED: "${resource.name}" comes from untrusted registry "${resource.registry}" (search only).`;
+}
+
+/**
+ * With an allowlist configured, the publisher (GitHub owner, or host for git and tarball sources)
+ * must be on it. Anything without a publisher can't be verified and is blocked too.
+ */
+export function checkAllowlist(name: string, publisher: string | null, allowedPublishers: string[] | null): string | null {
+  if (!allowedPublishers?.length) return null;
+  if (!publisher) return `BLOCKED: "${name}" has no GitHub owner or host. Cannot verify publisher.`;
+  if (!allowedPublishers.some(p => p.toLowerCase() === publisher.toLowerCase())) {
+    return `BLOCKED: "${name}" is published by "${publisher}", which is not in your allowlist (${allowedPublishers.join(", ")}). ` +
+      `To allow it, add "${publisher}" to plugins.entries.vibeclaw.config.allowedPublishers.`;
+  }
+  return null;
+}
+
+export function resourceSubject(action: PolicyAction, resource: VibeResource, license?: string | null): PolicySubject {
+  const { github_owner: owner, github_repo: repo } = resource;
+  return {
+    action,
+    name: resource.name,
+    type: resource.resource_type,
+    publisher: owner,
+    repo: owner && repo ? `${owner}/${repo}` : null,
+    resource,
+    license,
+  };
+}
+
+export function sourceSubject(action: PolicyAction, source: SkillSource, name: string, license?: string | null): PolicySubject {
+  return {
+    action,
+    name,
+    type: "skill",
+    publisher: sourcePublisher(source),
+    repo: source.kind === "github" ? `${source.owner}/${source.repo}` : null,
+    resource: null,
+    license,
+  };
+}
+
+/** A check result as a PlanBlock, so callers know which gate stopped it. */
+export function planBlock(gate: Gate, reason: string | null): PlanBlock | null {
+  return reason ? { gate, reason } : null;
+}
+
+function allowed(): SecurityDecision {
+  return { allowed: true, gate: null, reasons: [] };
+}
+
+function blockedBy(block: PlanBlock): SecurityDecision {
+  return { allowed: false, gate: block.gate, reasons: [block.reason] };
+}
+
+/** The result of an install; `decision` stays null when it stopped before the checks ran. */
+function output(
+  status: InstallStatus,
+  message: string,
+  target: { type?: VibeResource["resource_type"]; name?: string; resource?: VibeResource | null },
+  extra: Partial<InstallOutput> = {},
+): InstallOutput {
+  return {
+    status,
+    name: target.name ?? null,
+    type: target.type ?? null,
+    resource: target.resource ? summarizeResource(target.resource) : null,
+    decision: null,
+    ...extra,
+    message,
+  };
+}
+
+function skillDetails(result: InstallResult): Partial<InstallOutput> {
+  return {
+    path: result.installPath,
+    commit: result.commit,
+    files: result.files?.length,
+    findings: result.scan?.findings,
+    warnings: result.warnings,
+  };
+}
+
+/** A skill that could not be prepared: already there, stopped by the local scan, or failed to download. */
+function preparationFailure(
+  result: InstallResult,
+  target: { type: VibeResource["resource_type"]; name: string; resource: VibeResource | null },
+): InstallOutput {
+  if (result.alreadyInstalled) {
+    return output("already_installed", `"${target.resource?.name ?? result.skillName}" already installed. Use force to reinstall.`, target);
+  }
+  const text = formatInstallFailure(result);
+  if (result.scan?.findings.length) {
+    return output("blocked", text, target, { decision: blockedBy({ gate: "scan", reason: `Install failed: ${result.error}` }), ...skillDetails(result) });
+  }
+  return output("failed", text, target, { warnings: result.warnings });
+}
+
+export type InstallFlow = ReturnType<typeof createInstallFlow>;
+
+export function createInstallFlow({ client, config, runtimeConfig }: InstallContext) {
+  const { allowedPublishers, policyPath, scanThreshold, maxResults } = config;
+  /** Resource id -> the search that last listed it, so installs can be traced back to a search. */
+  const searches = new Map<string, string>();
+
+  /** Record a search in the history and remember what it listed. */
+  async function recordSearch(query: string, tool: string, results: VibeResource[]): Promise<void> {
+    for (const r of results) searches.set(r.id, query);
+    await recordEvent({ action: "search", name: null, actor: "agent", query, results: results.map(r => r.id), message: `${tool}: ${results.length} result(s)` });
+  }
+
+  /**
+   * A plugin's id as the registry's install info names it, used as its plugins.entries key.
+   * Install info is looked up by name, so it only counts when it carries this entry's own command.
+   */
+  async function pluginId(resource: VibeResource, installCommand: string): Promise<string> {
+    const info = await client.getInstallInfo(resource.name, "plugin").catch(() => null);
+    return info?.success && info.data.name && info.data.install_command === installCommand ? info.data.name : resource.name;
+  }
+
+  /**
+   * Install an MCP server or plugin into the OpenClaw config. Marketplaces can't be
+   * installed automatically, so their install command is returned for the user to run. Plugins
+   * are only registered: their package is left for the user to install with the command shown.
+   */
+  async function installResource(
+    resource: VibeResource,
+    force?: boolean,
+  ): Promise<{ ok: boolean; text: string; configKey?: string; alreadyInstalled?: boolean; previous?: ReplacedResource; blocked?: PlanBlock }> {
+    // Only this resource's own command: a lookup by name could return another entry's
+    let installCommand = resource.computed_install_command;
+    if (!installCommand) {
+      const byId = await client.getResource(resource.id).catch(() => null);
+      installCommand = byId?.success ? byId.data.computed_install_command : undefined;
+    }
+    if (!installCommand) return { ok: false, text: `"${resource.name}" has no install command in Vibe Index.` };
+    if (resource.resource_type === "marketplace") {
+      return { ok: false, text: `"${resource.name}" is a marketplace and can't be installed automatically.\n  Install command: ${installCommand}` };
+    }
+    const blocking = blockingFindings(scanSkillFiles([{ path: "install command", content: installCommand }]), scanThreshold);
+    if (blocking.length) {
+      const text = `BLOCKED: install command for "${resource.name}" failed the local scan.\n${formatFindings(blocking)}`;
+      return { ok: false, text, blocked: { gate: "scan", reason: text.split("\n")[0] } };
+    }
+
+    const install = resource.resource_type === "mcp" ? installMcpServer : registerPlugin;
+    const key = resource.resource_type === "mcp" ? resource.slug || resource.name : await pluginId(resource, installCommand);
+    const result = await install(runtimeConfig, key, installCommand, registrySource(resource), { force, resourceId: resource.id });
+    if (!result.success) return { ok: false, text: `Install failed: ${result.error}` };
+    if (result.alreadyInstalled) return { ok: true, alreadyInstalled: true, configKey: result.configKey, text: `"${resource.name}" already installed. Use force to reinstall.` };
+    if (resource.resource_type === "mcp") {
+      return { ok: true, configKey: result.configKey, previous: result.previous, text: `Installed MCP server "${resource.name}"!\n  Config: mcp.servers.${result.configKey}\n  Server: ${JSON.stringify(result.entry)}\n  Security: ${formatSecurityBadge(resource)}\n\nAvailable on next session.` };
+    }
+    return { ok: true, configKey: result.configKey, previous: result.previous, text: `Registered plugin "${resource.name}", but its package is not installed yet.\n  Config: plugins.entries.${result.configKey}\n  Install command: ${installCommand}\n  Security: ${formatSecurityBadge(resource)}\n\nVibeClaw does not download plugin packages. Run the install command, then restart the gateway to load it.` };
+  }
+
+  /**
+   * Check a decision against the policy file, which is re-read every time so edits apply
+   * without a restart. A broken policy file blocks everything until it is fixed.
+   */
+  async function checkPolicy(subject: PolicySubject): Promise<string | null> {
+    const loaded = await loadPolicy(policyPath);
+    if ("error" in loaded) return `BLOCKED by policy: ${loaded.error}. Nothing can be installed until the policy file is fixed.`;
+    const denial = evaluatePolicy(loaded.policy, subject);
+    return denial ? formatPolicyDenial(subject, denial) : null;
+  }
+
+  async function securityThreshold(): Promise<number> {
+    const loaded = await loadPolicy(policyPath);
+    return ("policy" in loaded ? loaded.policy.maxSecurityScore : undefined) ?? DEFAULT_MAX_SECURITY_SCORE;
+  }
+
+  /** Every check a registry resource must pass before it is installed, updated or adopted. */
+  async function checkResource(action: PolicyAction, resource: VibeResource, license?: string): Promise<PlanBlock | null> {
+    return planBlock("trust", checkTrust(resource))
+      ?? planBlock("allowlist", checkAllowlist(resource.name, resource.github_owner, allowedPublishers))
+      ?? planBlock("policy", await checkPolicy(resourceSubject(action, resource, license)))
+      ?? planBlock("security", checkSecurity(resource, await securityThreshold()));
+  }
+
+  /**
+   * The checks for a skill downloaded outside vibeclaw_install (lockfile sync): registry skills
+   * are re-checked against their current Vibe Index entry, direct sources against the allowlist
+   * and policy. A registry skill that no longer resolves can't be verified and is blocked.
+   */
+  async function checkPreparedSkill(prepared: PreparedSkill): Promise<PlanBlock | null> {
+    const { source, skillName: name, resourceId } = prepared;
+    const license = prepared.manifest.license;
+    if (resourceId) {
+      const res = await client.getResource(resourceId).catch(() => null);
+      if (!res?.success || !res.data) {
+        return { gate: "source", reason: `BLOCKED: "${name}" (id ${resourceId}) no longer resolves in Vibe Index, cannot verify security.` };
+      }
+      return checkResource("install", res.data, license);
+    }
+    return planBlock("allowlist", checkAllowlist(name, sourcePublisher(source), allowedPublishers))
+      ?? planBlock("policy", await checkPolicy(sourceSubject("install", source, name, license)));
+  }
+
+  const planHooks: PlanHooks = {
+    async resolve(spec, type) {
+      // Bare ids resolve directly; anything else goes through the same exact-match rules as vibeclaw_install
+      if (!/[\s/]/.test(spec)) {
+        const byId = await client.getResource(spec).catch(() => null);
+        if (byId?.success && byId.data?.resource_type === type) return { resource: byId.data };
+      }
+      return resolveInstallTarget({ query: spec }, type);
+    },
+    async check(item) {
+      const license = item.prepared?.manifest.license;
+      if (item.resource) return checkResource("install", item.resource, license);
+      return item.prepared ? planBlock("policy", await checkPolicy(sourceSubject("install", item.prepared.source, item.name, license))) : null;
+    },
+    async isInstalled(type, r) {
+      return type === "skill"
+        ? await findInstalledSkill(r.slug || r.name) !== null
+        : isMcpServerConfigured(runtimeConfig, r.slug || r.name);
+    },
+    async prepare(r) {
+      if (!r.github_owner || !r.github_repo) return { success: false, skillName: r.name, error: `"${r.name}" has no GitHub repo.` };
+      return prepareSkillInstall({ kind: "github", owner: r.github_owner, repo: r.github_repo }, r.slug || r.name, {
+        scanThreshold,
+        resourceId: r.id,
+      });
+    },
+  };
+
+  /**
+   * Resolve the dependencies of a skill or MCP server and install everything, dependencies first.
+   * Nothing is installed when an item is blocked or a dependency can't be resolved, and anything
+   * installed before a failure is removed again. Without dependencies only `describe` is shown.
+   * With `gate`, a plan that passes every check is handed to it instead of being carried out.
+   */
+  async function installWithDependencies(
+    root: { type: PlanItemType; name: string; resource: VibeResource | null; prepared?: PreparedSkill },
+    force: boolean | undefined,
+    describe: (result: InstallResult) => string,
+    approval?: (pending: PendingInstall) => Promise<InstallOutput>,
+  ): Promise<InstallOutput> {
+    const plan = await buildInstallPlan(root, planHooks);
+    const single = plan.items.length === 1 && plan.errors.length === 0;
+    const dependencies = plan.items.filter(item => item.requiredBy).map(item => ({
+      name: item.name,
+      type: item.type,
+      requiredBy: item.requiredBy!,
+      alreadyInstalled: item.installed,
+      blocked: item.blocked?.reason ?? null,
+    }));
+    const blocked = plan.items.filter(item => item.blocked);
+    const problems = [...plan.errors, ...blocked.map(item => `${item.name}: ${item.blocked!.reason}`)];
+    if (problems.length > 0) {
+      const decision = { allowed: false, gate: blocked[0]?.blocked!.gate ?? "dependencies", reasons: problems };
+      const text = `${formatInstallPlan(plan)}\n\nNothing was installed:\n${problems.map(problem => `  - ${problem}`).join("\n")}`;
+      return single ? output("blocked", blocked[0].blocked!.reason, root, { decision }) : output("blocked", text, root, { decision, dependencies });
+    }
+    if (approval) return approval({ ...root, plan });
+
+    const outcome = await executeInstallPlan(plan, {
+      installSkill: commitSkillInstall,
+      installMcp: r => installResource(r, r === root.resource ? force : undefined),
+      undoSkill: result => result.replaced ? rollbackSkill(result.skillName) : uninstallSkill(result.skillName),
+      undoMcp: result => result.previous
+        ? restoreResource(runtimeConfig, result.previous)
+        : uninstallResource(runtimeConfig, "mcp", result.configKey!),
+    });
+    const { rootResult } = outcome;
+    const rootText = rootResult ? (rootResult.success ? describe(rootResult) : formatInstallFailure(rootResult)) : outcome.rootText ?? "";
+    const details: Partial<InstallOutput> = {
+      decision: allowed(),
+      dependencies: dependencies.length ? dependencies : undefined,
+      ...(rootResult && skillDetails(rootResult)),
+    };
+    let text = rootText;
+    if (!single) {
+      const rolledBack = outcome.rolledBack.length ? `\nRolled back: ${outcome.rolledBack.join(", ")}` : "";
+      text = outcome.success
+        ? `${formatInstallPlan(plan)}\n\n${outcome.lines.join("\n")}\n\n${rootText}`
+        : `${formatInstallPlan(plan)}\n\nInstall failed, nothing was kept:\n${outcome.lines.join("\n")}${rolledBack}`;
+    }
+    return output(outcome.success ? "installed" : "failed", text, root, details);
+  }
+
+  /**
+   * Resolve an install target to exactly one resource. Exact identifiers (Vibe Index id or
+   * owner/repo/slug) resolve directly; free text only resolves when a single result's name or
+   * slug matches it exactly. Anything else returns a ranked candidate list and installs nothing.
+   */
+  async function resolveInstallTarget(
+    params: { query?: string; id?: string },
+    type: VibeResource["resource_type"],
+  ): Promise<{ resource: VibeResource } | { message: string; candidates?: VibeResource[] }> {
+    if (params.id) {
+      let res;
+      try {
+        res = await client.getResource(params.id);
+      } catch (err) {
+        if (!(err instanceof VibeIndexNotFoundError)) throw err;
+      }
+      if (!res?.success || !res.data) return { message: `No Vibe Index resource with id "${params.id}".` };
+      return { resource: res.data };
+    }
+
+    const query = params.query?.trim() ?? "";
+    if (!query) return { message: "Specify query or id." };
+    const label = type === "skill" ? "Skill" : type === "mcp" ? "MCP server" : type === "plugin" ? "Plugin" : "Marketplace";
+
+    const triple = /^([\w.-]+)\/([\w.-]+)\/([\w.-]+)$/.exec(query);
+    if (triple) {
+      const [, owner, repo, slug] = triple.map(part => part.toLowerCase());
+      const res = await client.search(slug, { type, limit: 10 });
+      const match = res.success ? res.data.find(r =>
+        r.github_owner?.toLowerCase() === owner && r.github_repo?.toLowerCase() === repo && r.slug.toLowerCase() === slug) : undefined;
+      return match ? { resource: match } : { message: `${label} "${query}" not found in Vibe Index.` };
+    }
+
+    const res = await client.search(query, { type, limit: maxResults });
+    if (!res.success || res.data.length === 0) return { message: `${label} "${query}" not found in Vibe Index.` };
+    const exact = res.data.filter(r => r.slug.toLowerCase() === query.toLowerCase() || r.name.toLowerCase() === query.toLowerCase());
+    if (exact.length === 1) return { resource: exact[0] };
+
+    let output = `"${query}" matches ${res.data.length} ${label.toLowerCase()}(s). Nothing was installed.\n\n`;
+    output += res.data.map((r, i) => formatCandidate(r, i + 1)).join("\n");
+    output += `\nConfirm with the user, then run vibeclaw_install with the chosen id or owner/repo/slug.`;
+    return { message: output, candidates: res.data };
+  }
+
+  /**
+   * Install a skill straight from a source spec. There is no registry security data for these,
+   * so only the allowlist (GitHub owner or host), the policy and the local scan apply.
+   */
+  async function installFromSource(spec: string, params: InstallParams, opts?: InstallOptions): Promise<InstallOutput> {
+    const source = parseSkillSource(spec);
+    if (!source) return output("failed", `Unrecognized source "${spec}". Use github:owner/repo, a git URL, a .tar.gz URL or file:///path.`, {});
+    const name = params.name ?? defaultSkillName(source, params.path);
+    const target = { type: "skill" as const, name, resource: null };
+    const blocked = planBlock("allowlist", checkAllowlist(name, sourcePublisher(source), allowedPublishers));
+    if (blocked) return output("blocked", blocked.reason, target, { decision: blockedBy(blocked) });
+    const prepared = await prepareSkillInstall(source, name, {
+      force: params.force,
+      path: params.path,
+      pin: opts?.pin,
+      scanThreshold,
+    });
+    if (!("prepared" in prepared)) return preparationFailure(prepared, target);
+    return installWithDependencies(
+      { type: "skill", name: prepared.prepared.skillName, resource: null, prepared: prepared.prepared },
+      params.force,
+      result => `Installed "${result.skillName}" from ${spec}!\n  Path: ${result.installPath}\n  Revision: ${result.commit?.slice(0, 7)}\n  Files: ${result.files?.length ?? 1}\n  Security: no registry data (direct source)\n  ${formatScanSummary(result)}\n\nAvailable on next session.`,
+      opts?.gate,
+    );
+  }
+
+  /**
+   * Carry out a vibeclaw_install call and record the outcome in the history. With `gate` (approval
+   * mode) everything up to the actual write happens, and the install is handed to the gate instead;
+   * with `pin`, a skill is installed at exactly the revision that was approved.
+   */
+  async function runInstall(params: InstallParams, opts?: InstallOptions): Promise<InstallOutput> {
+    const result = await install(params, opts);
+    const action = result.status === "installed" ? "install"
+      : result.status === "blocked" ? "block"
+        : result.status === "pending_approval" ? "request"
+          : null;
+    if (!action) return result;
+    await recordEvent({
+      action,
+      name: result.name,
+      type: result.type ?? undefined,
+      actor: opts?.actor ?? "agent",
+      query: params.source ?? params.id ?? params.query,
+      fromSearch: result.resource ? searches.get(result.resource.id) : undefined,
+      resourceId: result.resource?.id,
+      publisher: result.resource?.publisher,
+      source: params.source,
+      commit: result.commit,
+      security: result.resource?.security.badge ?? "no registry data (direct source)",
+      requestId: result.requestId ?? opts?.requestId,
+      gate: result.decision?.gate ?? undefined,
+      attempted: action === "block" ? "install" : undefined,
+      reasons: action === "block" ? result.decision?.reasons : undefined,
+      dependencies: result.dependencies?.filter(dep => !dep.alreadyInstalled).map(dep => dep.name),
+      findings: result.findings?.length,
+      message: result.message.split("\n")[0],
+    });
+    return result;
+  }
+
+  async function install(params: InstallParams, opts?: InstallOptions): Promise<InstallOutput> {
+    if (params.source) return installFromSource(params.source, params, opts);
+    const resolved = await resolveInstallTarget(params, params.type ?? "skill");
+    if ("message" in resolved) {
+      return resolved.candidates
+        ? output("needs_choice", resolved.message, {}, { candidates: resolved.candidates.map(r => summarizeResource(r)) })
+        : output("not_found", resolved.message, {});
+    }
+    const skill = resolved.resource;
+    const target = { type: skill.resource_type, name: skill.slug || skill.name, resource: skill };
+    if (opts?.source && registrySource(skill) !== opts.source) {
+      const reason = `BLOCKED: "${skill.name}" now installs from ${registrySource(skill)} instead of the approved ${opts.source}.`;
+      return output("blocked", reason, target, { decision: blockedBy({ gate: "source", reason }) });
+    }
+    const blocked = await checkResource("install", skill);
+    if (blocked) return output("blocked", blocked.reason, target, { decision: blockedBy(blocked) });
+    if (skill.resource_type !== "skill") {
+      if (skill.resource_type === "mcp") {
+        return installWithDependencies({ type: "mcp", name: target.name, resource: skill }, params.force, () => "", opts?.gate);
+      }
+      if (opts?.gate && skill.resource_type === "plugin") return opts.gate(target);
+      const result = await installResource(skill, params.force);
+      const status = result.blocked ? "blocked" : !result.ok ? "failed" : result.alreadyInstalled ? "already_installed" : "installed";
+      return output(status, result.text, target, {
+        decision: result.blocked ? blockedBy(result.blocked) : allowed(),
+        configKey: result.configKey,
+      });
+    }
+    if (!skill.github_owner || !skill.github_repo) return output("failed", `"${skill.name}" has no GitHub repo.`, target);
+    const prepared = await prepareSkillInstall(
+      { kind: "github", owner: skill.github_owner, repo: skill.github_repo },
+      target.name,
+      { force: params.force, pin: opts?.pin, scanThreshold, resourceId: skill.id },
+    );
+    if (!("prepared" in prepared)) return preparationFailure(prepared, target);
+    return installWithDependencies(
+      { type: "skill", name: target.name, resource: skill, prepared: prepared.prepared },
+      params.force,
+      result => `Installed "${result.skillName}"!\n  Path: ${result.installPath}\n  Commit: ${result.commit?.slice(0, 7)}\n  Files: ${result.files?.length ?? 1}\n  Stars: ${skill.stars}\n  Security: ${formatSecurityBadge(skill)}\n  ${formatScanSummary(result)}\n\nAvailable on next session.`,
+      opts?.gate,
+    );
+  }
+
+  /**
+   * Approval mode: record the install as a pending request with what the user needs to decide on.
+   */
+  async function requestApproval(params: InstallParams, pending: PendingInstall): Promise<InstallOutput> {
+    const { resource, prepared, plan } = pending;
+    const skillMd = prepared?.files.find(file => file.path === "SKILL.md")?.content.toString("utf-8");
+    const preview = skillMd
+      ? skillMd.split("\n").slice(0, PREVIEW_LINES).join("\n")
+      : `Install command: ${resource?.computed_install_command ?? "resolved from Vibe Index at install time"}`;
+    const request = await createInstallRequest({
+      params,
+      pin: prepared?.pin,
+      resourceId: resource?.id,
+      source: resource ? registrySource(resource) : params.source,
+      name: pending.name,
+      type: pending.type,
+      publisher: resource?.github_owner ?? (prepared ? sourcePublisher(prepared.source) : null),
+      security: resource ? formatSecurityBadge(resource) : "no registry data (direct source)",
+      preview,
+      dependencies: (plan?.items ?? []).filter(item => item.requiredBy && !item.installed).map(item => `${item.name} (${item.type})`),
+    }, config.approvalTtlMs);
+
+    return output("pending_approval", formatPendingRequest(request), pending, {
+      decision: allowed(),
+      requestId: request.id,
+      commit: request.pin?.commit,
+      findings: prepared?.scan.findings,
+      warnings: prepared?.warnings,
+    });
+  }
+
+  /**
+   * Approval mode for updates, adoptions, rollbacks, enables and lockfile syncs: record the
+   * change as a pending request, and in the history, instead of carrying it out.
+   */
+  async function requestChange(
+    fields: Omit<InstallRequest, "id" | "status" | "createdAt" | "expiresAt" | "params" | "dependencies"> & { action: RequestAction },
+  ): Promise<InstallRequest> {
+    const request = await createInstallRequest({ params: {}, dependencies: [], ...fields }, config.approvalTtlMs);
+    await recordEvent({
+      action: "request",
+      name: request.name,
+      type: request.type,
+      actor: "agent",
+      resourceId: request.resourceId,
+      publisher: request.publisher,
+      source: request.source,
+      commit: request.pin?.commit,
+      security: request.security,
+      requestId: request.id,
+      message: `${request.action} request ${request.id} for "${request.name}"`,
+    });
+    return request;
+  }
+
+  /**
+   * Find the Vibe Index resource an unmanaged skill came from: entries whose slug or name matches
+   * the skill's frontmatter or directory name (or the given id), compared file by file with the
+   * skill in their repo. A byte-identical match wins; otherwise the first comparable one is returned.
+   */
+  async function findAdoptionMatch(
+    skill: UnmanagedSkill,
+    id?: string,
+  ): Promise<{ resource: VibeResource; match: AdoptionMatch } | { message: string }> {
+    let candidates: VibeResource[];
+    if (id) {
+      const res = await client.getResource(id).catch(() => null);
+      candidates = res?.success ? [res.data] : [];
+      if (candidates.length === 0) return { message: `no Vibe Index entry with id ${id}` };
+    } else {
+      const names = [skill.name.toLowerCase(), skill.dirName.toLowerCase()];
+      const res = await client.search(skill.name, { type: "skill", limit: 10 });
+      candidates = (res.success ? res.data : []).filter(r => [r.slug, r.name].some(n => n && names.includes(n.toLowerCase())));
+      if (candidates.length === 0) return { message: `no Vibe Index skill named "${skill.name}"` };
+    }
+
+    let best: { resource: VibeResource; match: AdoptionMatch } | null = null;
+    for (const resource of candidates.filter(r => r.github_owner && r.github_repo).slice(0, 3)) {
+      const match = await compareWithSource(skill, { kind: "github", owner: resource.github_owner!, repo: resource.github_repo! });
+      if ("error" in match) continue;
+      if (match.identical) return { resource, match };
+      best ??= { resource, match };
+    }
+    return best ?? { message: `found ${candidates.map(r => r.id).join(", ")} but not this skill in their repos` };
+  }
+
+  function formatAdoptionMatch(skill: UnmanagedSkill, found: { resource: VibeResource; match: AdoptionMatch } | { message: string }): string {
+    if ("message" in found) return `${skill.dirName}: no match (${found.message})`;
+    const { resource, match } = found;
+    let line = `${skill.dirName}: ${formatSkillSource(match.source)} (id ${resource.id}) - `;
+    line += match.identical ? `identical to ${match.pin.commit.slice(0, 7)}` : "modified locally";
+    line += ` - Security: ${formatSecurityBadge(resource)}`;
+    if (match.modified.length) line += `\n  Changed: ${match.modified.join(", ")}`;
+    if (match.missing.length) line += `\n  Only upstream: ${match.missing.join(", ")}`;
+    if (match.extra.length) line += `\n  Only on disk: ${match.extra.join(", ")}`;
+    return line;
+  }
+
+  /**
+   * Look up the exact Vibe Index resource behind an installed skill using the identity stored
+   * in .vibeclaw.json, and report identity problems (removed, moved, publisher changed).
+   * Skills installed straight from a source have no registry entry, so resource is null.
+   */
+  async function lookupInstalledSkill(name: string): Promise<{ resource: VibeResource | null; problems: string[] }> {
+    const meta = await getInstalledSkillMeta(name);
+    const source = meta ? parseSkillSource(meta.source) : null;
+    const owner = source?.kind === "github" ? meta?.owner ?? source.owner : null;
+    const repo = source?.kind === "github" ? meta?.repo ?? source.repo : null;
+    const problems: string[] = [];
+    let resource: VibeResource | null = null;
+
+    if (meta?.resourceId) {
+      try {
+        const res = await client.getResource(meta.resourceId);
+        resource = res.success ? res.data : null;
+      } catch (err) {
+        if (!(err instanceof VibeIndexNotFoundError)) throw err;
+      }
+      if (!resource) problems.push(`removed from Vibe Index (id ${meta.resourceId})`);
+    } else if (!meta?.sourceKind) {
+      // Installed before identity tracking: only accept a result from the same repo
+      const res = await client.search(meta?.slug ?? name, { type: "skill", limit: 10 });
+      resource = (res.success ? res.data : []).find(r =>
+        r.github_owner?.toLowerCase() === owner?.toLowerCase() && r.github_repo?.toLowerCase() === repo?.toLowerCase()) ?? null;
+      if (!resource) problems.push(`no Vibe Index entry for ${owner}/${repo}`);
+    }
+
+    if (resource && owner && repo) {
+      if (resource.github_owner?.toLowerCase() !== owner.toLowerCase()) {
+        problems.push(`publisher changed (${owner} -> ${resource.github_owner ?? "none"})`);
+      } else if (resource.github_repo?.toLowerCase() !== repo.toLowerCase()) {
+        problems.push(`repo moved (${owner}/${repo} -> ${resource.github_owner}/${resource.github_repo})`);
+      }
+    }
+    if (owner && repo) {
+      const upstream = await checkUpstreamRepo(owner, repo);
+      if (upstream.status === "deleted") problems.push(`upstream repo ${owner}/${repo} was deleted`);
+      if (upstream.status === "moved") problems.push(`upstream repo moved to ${upstream.fullName}`);
+    }
+    return { resource, problems };
+  }
+
+  /**
+   * The Vibe Index entry behind an installed MCP server or plugin, by the id recorded at install
+   * time. Entries installed before ids were recorded only accept a result from the same source.
+   */
+  async function lookupInstalledResource(meta: ResourceMeta): Promise<VibeResource | null> {
+    const id = meta.resourceId ?? /^vibeindex:(.+)$/.exec(meta.source)?.[1];
+    if (!id) {
+      const res = await client.search(meta.name, { type: meta.type, limit: 10 });
+      return (res.success ? res.data : []).find(r => registrySource(r) === meta.source) ?? null;
+    }
+    try {
+      const res = await client.getResource(id);
+      return res.success ? res.data : null;
+    } catch (err) {
+      if (!(err instanceof VibeIndexNotFoundError)) throw err;
+      return null;
+    }
+  }
+
+  return {
+    installResource,
+    checkPolicy,
+    securityThreshold,
+    checkResource,
+    checkPreparedSkill,
+    recordSearch,
+    resolveInstallTarget,
+    runInstall,
+    requestApproval,
+    requestChange,
+    findAdoptionMatch,
+    formatAdoptionMatch,
+    lookupInstalledSkill,
+    lookupInstalledResource,
+  };
+}
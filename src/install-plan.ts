@@ -0,0 +1,208 @@
+/**
+ * VibeClaw Install Plan
+ * Resolves the dependencies a skill declares (SKILL.md requires.skills / requires.mcp and Vibe Index
+ * metadata) into an ordered plan, detects cycles, and carries the plan out all-or-nothing.
+ */
+
+import type { VibeResource } from "./vibe-index-client.js";
+import type { PreparedSkill, InstallResult } from "./skill-installer.js";
+import type { ReplacedResource } from "./resource-installer.js";
+
+export type PlanItemType = "skill" | "mcp";
+
+/**
+ * The check that stopped an install: registry trust, publisher allowlist, policy file,
+ * registry security data, local scan, or the source itself (unreachable, invalid SKILL.md).
+ */
+export type Gate = "trust" | "allowlist" | "policy" | "security" | "scan" | "source" | "dependencies";
+
+export interface PlanBlock {
+  gate: Gate;
+  reason: string;
+}
+
+export interface PlanItem {
+  type: PlanItemType;
+  name: string;
+  /** Registry entry, or null for a skill installed straight from a source. */
+  resource: VibeResource | null;
+  /** Item that pulled this one in (null for the requested item). */
+  requiredBy: string | null;
+  /** Already present, so the dependency is satisfied and the item is left alone. */
+  installed: boolean;
+  /** Downloaded and checked skill, ready to be written. */
+  prepared?: PreparedSkill;
+  /** Why the item can't be installed. */
+  blocked?: PlanBlock;
+}
+
+export interface InstallPlan {
+  /** Dependencies come before the items that need them; the requested item is last. */
+  items: PlanItem[];
+  /** Unresolvable dependencies and cycles. */
+  errors: string[];
+}
+
+export interface PlanHooks {
+  /** Find the registry entry for a declared dependency (id, owner/repo/slug or name). */
+  resolve(spec: string, type: PlanItemType): Promise<{ resource: VibeResource } | { message: string }>;
+  /**
+   * Trust, allowlist, policy and security checks; returns the gate and reason when the item is blocked.
+   * Skills are checked again once downloaded, when their SKILL.md is known.
+   */
+  check(item: PlanItem): Promise<PlanBlock | null>;
+  isInstalled(type: PlanItemType, resource: VibeResource): Promise<boolean>;
+  /** Download and check a skill dependency. */
+  prepare(resource: VibeResource): Promise<{ prepared: PreparedSkill } | InstallResult>;
+}
+
+export interface McpInstallResult {
+  ok: boolean;
+  text: string;
+  configKey?: string;
+  alreadyInstalled?: boolean;
+  /** The entry a forced reinstall replaced. */
+  previous?: ReplacedResource;
+}
+
+export interface PlanExecutors {
+  installSkill(prepared: PreparedSkill): Promise<InstallResult>;
+  installMcp(resource: VibeResource): Promise<McpInstallResult>;
+  /** Take back a skill install: restore the version it replaced, or remove it. */
+  undoSkill(result: InstallResult): Promise<unknown>;
+  /** Take back an MCP server install: restore the entry it replaced, or remove it. */
+  undoMcp(result: McpInstallResult): Promise<unknown>;
+}
+
+export interface PlanOutcome {
+  success: boolean;
+  /** One line per item that was attempted, in install order. */
+  lines: string[];
+  /** Result of the requested item, when it was attempted. */
+  rootResult?: InstallResult;
+  rootText?: string;
+  /** Items removed again after a failure. */
+  rolledBack: string[];
+}
+
+function dependenciesOf(item: PlanItem): Array<{ type: PlanItemType; spec: string }> {
+  const declared = [
+    ...(item.prepared?.manifest.requires.skills ?? []).map(spec => ({ type: "skill" as const, spec })),
+    ...(item.prepared?.manifest.requires.mcp ?? []).map(spec => ({ type: "mcp" as const, spec })),
+    ...(item.resource?.dependencies ?? []).map(dep => ({ type: dep.type, spec: dep.id ?? dep.name })),
+  ];
+  const seen = new Set<string>();
+  return declared.filter(dep => {
+    const key = `${dep.type}:${dep.spec.toLowerCase()}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Walk the dependency graph depth-first from the requested item. Dependencies that are already
+ * installed are not expanded further; a dependency that leads back to an item still being
+ * resolved is reported as a cycle.
+ */
+export async function buildInstallPlan(
+  root: { type: PlanItemType; name: string; resource: VibeResource | null; prepared?: PreparedSkill },
+  hooks: PlanHooks,
+): Promise<InstallPlan> {
+  const items: PlanItem[] = [];
+  const errors: string[] = [];
+  const done = new Set<string>();
+
+  async function visit(item: PlanItem, path: Array<{ key: string; name: string }>): Promise<void> {
+    const key = item.resource ? `${item.type}:${item.resource.id}` : `${item.type}:${item.name}`;
+    const cycleAt = path.findIndex(step => step.key === key);
+    if (cycleAt >= 0) {
+      errors.push(`Dependency cycle: ${[...path.slice(cycleAt).map(step => step.name), item.name].join(" -> ")}`);
+      return;
+    }
+    if (done.has(key)) return;
+    done.add(key);
+
+    if (item.requiredBy && item.resource) item.installed = await hooks.isInstalled(item.type, item.resource);
+    if (!item.installed) {
+      item.blocked = await hooks.check(item) ?? undefined;
+      if (!item.blocked && item.type === "skill" && !item.prepared && item.resource) {
+        const result = await hooks.prepare(item.resource);
+        if ("prepared" in result) {
+          item.prepared = result.prepared;
+          item.blocked = await hooks.check(item) ?? undefined;
+        } else if (result.alreadyInstalled) item.installed = true;
+        else item.blocked = { gate: result.scan?.findings.length ? "scan" : "source", reason: result.error ?? "download failed" };
+      }
+    }
+
+    if (!item.installed) {
+      for (const dep of dependenciesOf(item)) {
+        const resolved = await hooks.resolve(dep.spec, dep.type);
+        if ("message" in resolved) {
+          errors.push(`${item.name} requires ${dep.type} "${dep.spec}": ${resolved.message.split("\n")[0]}`);
+          continue;
+        }
+        await visit({
+          type: dep.type,
+          name: resolved.resource.slug || resolved.resource.name,
+          resource: resolved.resource,
+          requiredBy: item.name,
+          installed: false,
+        }, [...path, { key, name: item.name }]);
+      }
+    }
+    items.push(item);
+  }
+
+  await visit({ ...root, requiredBy: null, installed: false }, []);
+  return { items, errors };
+}
+
+/**
+ * Install every item of a plan that isn't installed yet, dependencies first.
+ * If any item fails, the items installed before it are taken back again.
+ */
+export async function executeInstallPlan(plan: InstallPlan, exec: PlanExecutors): Promise<PlanOutcome> {
+  const lines: string[] = [];
+  const undo: Array<{ name: string; run: () => Promise<unknown> }> = [];
+  const outcome: PlanOutcome = { success: true, lines, rolledBack: [] };
+
+  for (const item of plan.items) {
+    if (item.installed) continue;
+    const isRoot = item.requiredBy === null;
+    let failure: string | null = null;
+
+    if (item.type === "skill") {
+      const result = await exec.installSkill(item.prepared!);
+      if (result.success) {
+        lines.push(`  - ${item.name}: installed @ ${result.commit?.slice(0, 7)}`);
+        undo.push({ name: item.name, run: () => exec.undoSkill(result) });
+      } else {
+        failure = result.error ?? "install failed";
+      }
+      if (isRoot) outcome.rootResult = result;
+    } else {
+      const result = await exec.installMcp(item.resource!);
+      if (result.ok) {
+        lines.push(`  - ${item.name}: ${result.text.split("\n")[0]}`);
+        if (result.configKey && !result.alreadyInstalled) undo.push({ name: item.name, run: () => exec.undoMcp(result) });
+      } else {
+        failure = result.text;
+      }
+      if (isRoot) outcome.rootText = result.text;
+    }
+
+    if (failure) {
+      lines.push(`  - ${item.name}: FAILED (${failure})`);
+      outcome.success = false;
+      for (const step of undo.reverse()) {
+        await step.run().catch(() => {});
+        outcome.rolledBack.push(step.name);
+      }
+      break;
+    }
+  }
+
+  return outcome;
+}
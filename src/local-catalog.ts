@@ -0,0 +1,129 @@
+/**
+ * Local Catalog Registry
+ * Serves search/trending/install lookups from a JSON file or a directory of JSON files,
+ * for self-hosted mirrors of vetted skills and for testing without Vibe Index.
+ *
+ * Each file holds a VibeResource, an array of them, or `{ "resources": [...] }`.
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type {
+  VibeResource,
+  VibeSearchResult,
+  VibeTrendingResult,
+  VibeInstallResult,
+  VibeResourceResult,
+} from "./vibe-index-client.js";
+import type { SkillRegistry } from "./registry.js";
+import { VibeIndexNotFoundError } from "./errors.js";
+
+type CatalogEntry = Partial<VibeResource> & Pick<VibeResource, "name"> & { star_growth?: number };
+
+function normalize(entry: CatalogEntry): VibeResource & { star_growth?: number } {
+  const slug = entry.slug ?? entry.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+  return {
+    id: entry.id ?? `local:${slug}`,
+    name: entry.name,
+    slug,
+    description: entry.description ?? null,
+    description_ko: entry.description_ko ?? null,
+    resource_type: entry.resource_type ?? "skill",
+    github_owner: entry.github_owner ?? null,
+    github_repo: entry.github_repo ?? null,
+    github_url: entry.github_url
+      ?? (entry.github_owner && entry.github_repo ? `https://github.com/${entry.github_owner}/${entry.github_repo}` : null),
+    stars: entry.stars ?? 0,
+    tags: entry.tags ?? [],
+    is_official: entry.is_official ?? false,
+    is_verified: entry.is_verified ?? false,
+    security_score: entry.security_score ?? null,
+    security_flags: entry.security_flags ?? null,
+    cisco_scan_result: entry.cisco_scan_result ?? null,
+    computed_install_command: entry.computed_install_command,
+    license: entry.license ?? null,
+    updated_at: entry.updated_at ?? null,
+    dependencies: entry.dependencies,
+    star_growth: entry.star_growth,
+  };
+}
+
+export class LocalCatalog implements SkillRegistry {
+  private location: string;
+  private loaded: Promise<Array<VibeResource & { star_growth?: number }>> | null = null;
+
+  constructor(location: string) {
+    this.location = location;
+  }
+
+  private async load(): Promise<Array<VibeResource & { star_growth?: number }>> {
+    this.loaded ??= (async () => {
+      const stat = await fs.stat(this.location);
+      const files = stat.isDirectory()
+        ? (await fs.readdir(this.location)).filter(name => name.endsWith(".json")).sort().map(name => path.join(this.location, name))
+        : [this.location];
+      const entries: CatalogEntry[] = [];
+      for (const file of files) {
+        const parsed = JSON.parse(await fs.readFile(file, "utf-8"));
+        entries.push(...(Array.isArray(parsed) ? parsed : parsed.resources ?? [parsed]));
+      }
+      return entries.filter(entry => entry?.name).map(normalize);
+    })();
+    // Let a fixed catalog be picked up on the next call instead of caching the failure
+    this.loaded.catch(() => { this.loaded = null; });
+    return this.loaded;
+  }
+
+  async search(query: string, opts?: { type?: string; limit?: number; offset?: number }): Promise<VibeSearchResult> {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const scored = (await this.load())
+      .filter(r => !opts?.type || r.resource_type === opts.type)
+      .map(r => {
+        const name = `${r.name} ${r.slug}`.toLowerCase();
+        const text = `${r.description ?? ""} ${r.tags.join(" ")}`.toLowerCase();
+        const score = terms.reduce((sum, term) => sum + (name.includes(term) ? 3 : 0) + (text.includes(term) ? 1 : 0), 0);
+        return { resource: { ...r, relevance_score: score }, score };
+      })
+      .filter(entry => terms.length === 0 || entry.score > 0)
+      .sort((a, b) => b.score - a.score || b.resource.stars - a.resource.stars);
+
+    const limit = opts?.limit ?? 5;
+    const offset = opts?.offset ?? 0;
+    return {
+      success: true,
+      data: scored.slice(offset, offset + limit).map(entry => entry.resource),
+      pagination: { limit, offset, total: scored.length },
+    };
+  }
+
+  async trending(opts?: { period?: "day" | "week" | "month"; type?: string; limit?: number }): Promise<VibeTrendingResult> {
+    // A static catalog has no history; rank by recorded growth, then stars
+    const data = (await this.load())
+      .filter(r => !opts?.type || r.resource_type === opts.type)
+      .sort((a, b) => (b.star_growth ?? 0) - (a.star_growth ?? 0) || b.stars - a.stars)
+      .slice(0, opts?.limit ?? 5);
+    return { success: true, data };
+  }
+
+  async getResource(id: string): Promise<VibeResourceResult> {
+    const resource = (await this.load()).find(r => r.id === id);
+    if (!resource) throw new VibeIndexNotFoundError(`/resources/${id}`);
+    return { success: true, data: resource };
+  }
+
+  async getInstallInfo(name: string, type?: string): Promise<VibeInstallResult> {
+    const resource = (await this.load()).find(r =>
+      (r.name === name || r.slug === name) && (!type || r.resource_type === type));
+    if (!resource) throw new VibeIndexNotFoundError("/install");
+    return {
+      success: true,
+      data: {
+        name: resource.name,
+        type: resource.resource_type,
+        github_url: resource.github_url ?? "",
+        install_command: resource.computed_install_command ?? "",
+        alternatives: [],
+      },
+    };
+  }
+}
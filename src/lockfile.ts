@@ -0,0 +1,80 @@
+/**
+ * VibeClaw Lockfile
+ * Records the exact commit and SHA-256 of every file VibeClaw installed, in
+ * vibeclaw.lock.json under the state dir, so installs can be reproduced byte-for-byte.
+ */
+
+import { promises as fs } from "node:fs";
+import { createHash } from "node:crypto";
+import { LOCKFILE_PATH } from "./paths.js";
+
+export interface LockedSkill {
+  /** Install source, e.g. "github:owner/repo". */
+  source: string;
+  /** Vibe Index id of the resource, when known. */
+  resourceId?: string;
+  /** Branch or tag the commit was resolved from. */
+  ref: string;
+  commit: string;
+  /** Directory of the skill inside the repo ("" for the repo root). */
+  path: string;
+  /** SHA-256 (hex) of every installed file, keyed by path relative to the skill directory. */
+  files: Record<string, string>;
+  installedAt: string;
+}
+
+export interface Lockfile {
+  lockfileVersion: 1;
+  skills: Record<string, LockedSkill>;
+}
+
+export function sha256(content: Buffer | string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Read vibeclaw.lock.json; a missing file is an empty lockfile. Throws when the file can't
+ * be read or parsed (e.g. left with merge conflict markers), since writing over it would
+ * drop every pin it holds.
+ */
+export async function readLockfile(): Promise<Lockfile> {
+  let content: string;
+  try {
+    content = await fs.readFile(LOCKFILE_PATH, "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return { lockfileVersion: 1, skills: {} };
+    throw new Error(`Could not read ${LOCKFILE_PATH}: ${(err as Error).message}`);
+  }
+  let parsed: Partial<Lockfile> | null;
+  try {
+    parsed = JSON.parse(content) as Partial<Lockfile> | null;
+  } catch (err) {
+    throw new Error(`${LOCKFILE_PATH} is not valid JSON (${(err as Error).message}). Fix or remove it and try again.`);
+  }
+  if (!parsed || typeof parsed !== "object" || (parsed.skills !== undefined && (typeof parsed.skills !== "object" || parsed.skills === null))) {
+    throw new Error(`${LOCKFILE_PATH} is not a VibeClaw lockfile. Fix or remove it and try again.`);
+  }
+  return { lockfileVersion: 1, skills: parsed.skills ?? {} };
+}
+
+async function writeLockfile(lock: Lockfile): Promise<void> {
+  // Sorted keys keep the file diff-friendly when it is committed to a team repo
+  const skills: Record<string, LockedSkill> = {};
+  for (const name of Object.keys(lock.skills).sort()) {
+    skills[name] = lock.skills[name];
+  }
+  await fs.writeFile(LOCKFILE_PATH, JSON.stringify({ lockfileVersion: 1, skills }, null, 2) + "\n", "utf-8");
+}
+
+export async function recordLockedSkill(name: string, entry: LockedSkill): Promise<void> {
+  const lock = await readLockfile();
+  lock.skills[name] = entry;
+  await writeLockfile(lock);
+}
+
+export async function removeLockedSkill(name: string): Promise<void> {
+  const lock = await readLockfile();
+  if (!(name in lock.skills)) return;
+  delete lock.skills[name];
+  await writeLockfile(lock);
+}
@@ -0,0 +1,42 @@
+/**
+ * VibeClaw state paths
+ * Resolves the OpenClaw state directory and the files VibeClaw keeps there.
+ */
+
+import path from "node:path";
+import os from "node:os";
+
+export const CONFIG_DIR = process.env.OPENCLAW_STATE_DIR
+  ?? process.env.CLAWDBOT_STATE_DIR
+  ?? path.join(os.homedir(), ".openclaw");
+
+export const SKILLS_DIR = path.join(CONFIG_DIR, "skills");
+
+export const LOCKFILE_PATH = path.join(CONFIG_DIR, "vibeclaw.lock.json");
+
+/** Tracking records for MCP servers and plugins VibeClaw added to the OpenClaw config. */
+export const RESOURCES_PATH = path.join(CONFIG_DIR, "vibeclaw-resources.json");
+
+/** On-disk cache of Vibe Index API responses. */
+export const CACHE_DIR = path.join(CONFIG_DIR, "cache", "vibeclaw");
+
+/** Skills are assembled here before being renamed into SKILLS_DIR, so it must be on the same filesystem. */
+export const STAGING_DIR = path.join(CONFIG_DIR, "vibeclaw", "staging");
+
+/** The previously installed version of each skill, kept for rollback. */
+export const BACKUP_DIR = path.join(CONFIG_DIR, "vibeclaw", "backups");
+
+/** Disabled skills, moved out of SKILLS_DIR so OpenClaw doesn't load them. */
+export const DISABLED_DIR = path.join(CONFIG_DIR, "vibeclaw", "disabled");
+
+/** Default install policy file (see policy.ts); absent means no policy. */
+export const POLICY_PATH = path.join(CONFIG_DIR, "vibeclaw-policy.json");
+
+/** Install requests awaiting approval, and the decisions made on them. */
+export const APPROVALS_PATH = path.join(CONFIG_DIR, "vibeclaw-approvals.json");
+
+/** Append-only JSONL log of searches, installs, blocks, updates, uninstalls and audit findings. */
+export const HISTORY_PATH = path.join(CONFIG_DIR, "vibeclaw-history.jsonl");
+
+/** Suggestions the user dismissed, which auto-recommend never shows again. */
+export const RECOMMENDATIONS_PATH = path.join(CONFIG_DIR, "vibeclaw-recommendations.json");
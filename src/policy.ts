@@ -0,0 +1,166 @@
+/**
+ * VibeClaw Install Policy
+ * A declarative JSON policy, kept apart from the plugin config so a security team can own it,
+ * that every install, update and adopt decision is checked against. Denials name the rule that fired.
+ */
+
+import { promises as fs } from "node:fs";
+import type { VibeResource } from "./vibe-index-client.js";
+
+/** Highest security score allowed when the policy sets none: scores of 25 and up are high risk. */
+export const DEFAULT_MAX_SECURITY_SCORE = 24;
+
+export interface InstallPolicy {
+  publishers?: {
+    /** When set, only matching publishers (GitHub owner, or host for git/tarball sources) are allowed. */
+    allow?: string[];
+    deny?: string[];
+  };
+  /** "owner/repo" patterns that may never be installed. */
+  blockedRepos?: string[];
+  minStars?: number;
+  /** The resource must carry at least one of these badges. */
+  requireBadges?: Array<"official" | "verified">;
+  allowedTypes?: Array<VibeResource["resource_type"]>;
+  /** Highest Vibe Index security score (a risk score) that is still allowed. */
+  maxSecurityScore?: number;
+  /** false: refuse resources Vibe Index hasn't scanned yet. Default true. */
+  allowPendingScans?: boolean;
+  /** SPDX ids of acceptable licenses. When set, a resource with no known license is refused. */
+  licenses?: string[];
+}
+
+export type PolicyAction = "install" | "update" | "adopt";
+
+export interface PolicySubject {
+  action: PolicyAction;
+  name: string;
+  type: VibeResource["resource_type"];
+  /** GitHub owner, or host for git and tarball sources; null for local paths. */
+  publisher: string | null;
+  /** "owner/repo" for GitHub sources. */
+  repo: string | null;
+  /** Registry entry, or null for skills installed straight from a source. */
+  resource: VibeResource | null;
+  /** License from the registry or the SKILL.md frontmatter. */
+  license?: string | null;
+}
+
+export interface PolicyDenial {
+  /** Dotted name of the rule, e.g. "publishers.deny". */
+  rule: string;
+  reason: string;
+}
+
+/**
+ * Match a value against a glob where `*` is any run of characters and `?` a single one. Case-insensitive.
+ */
+export function matchesGlob(pattern: string, value: string): boolean {
+  const source = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${source}$`, "i").test(value);
+}
+
+function validatePolicy(data: unknown): { policy: InstallPolicy } | { error: string } {
+  if (!data || typeof data !== "object" || Array.isArray(data)) return { error: "policy must be a JSON object" };
+  const policy = data as Record<string, unknown>;
+  const isStringList = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === "string");
+  const publishers = policy.publishers as Record<string, unknown> | undefined;
+
+  if (publishers !== undefined && (typeof publishers !== "object" || publishers === null)) return { error: "publishers must be an object" };
+  for (const key of ["allow", "deny"] as const) {
+    if (publishers?.[key] !== undefined && !isStringList(publishers[key])) return { error: `publishers.${key} must be a list of strings` };
+  }
+  for (const key of ["blockedRepos", "requireBadges", "allowedTypes", "licenses"] as const) {
+    if (policy[key] !== undefined && !isStringList(policy[key])) return { error: `${key} must be a list of strings` };
+  }
+  for (const key of ["minStars", "maxSecurityScore"] as const) {
+    if (policy[key] !== undefined && typeof policy[key] !== "number") return { error: `${key} must be a number` };
+  }
+  if (policy.allowPendingScans !== undefined && typeof policy.allowPendingScans !== "boolean") {
+    return { error: "allowPendingScans must be a boolean" };
+  }
+  const badges = (policy.requireBadges ?? []) as string[];
+  const unknownBadge = badges.find(badge => badge !== "official" && badge !== "verified");
+  if (unknownBadge) return { error: `requireBadges: unknown badge "${unknownBadge}" (expected official, verified)` };
+  return { policy: policy as InstallPolicy };
+}
+
+/**
+ * Read the policy file. A missing file is an empty policy; an unreadable or invalid one is an
+ * error, which callers treat as "deny everything" rather than silently dropping the rules.
+ */
+export async function loadPolicy(filePath: string): Promise<{ policy: InstallPolicy } | { error: string }> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return { policy: {} };
+    return { error: `cannot read ${filePath}: ${(err as Error).message}` };
+  }
+  try {
+    const checked = validatePolicy(JSON.parse(content));
+    return "error" in checked ? { error: `${filePath}: ${checked.error}` } : checked;
+  } catch (err) {
+    return { error: `${filePath} is not valid JSON: ${(err as Error).message}` };
+  }
+}
+
+/**
+ * Check one decision against the policy. Returns the first rule that denies it, or null.
+ * Rules that need registry data (stars, badges) deny subjects that have none.
+ */
+export function evaluatePolicy(policy: InstallPolicy, subject: PolicySubject): PolicyDenial | null {
+  const { resource, publisher } = subject;
+  const noData = (rule: string) => ({ rule, reason: `"${subject.name}" has no registry data to check` });
+
+  if (policy.allowedTypes && !policy.allowedTypes.includes(subject.type)) {
+    return { rule: "allowedTypes", reason: `${subject.type} resources are not allowed (allowed: ${policy.allowedTypes.join(", ") || "none"})` };
+  }
+
+  const denied = publisher ? policy.publishers?.deny?.find(pattern => matchesGlob(pattern, publisher)) : undefined;
+  if (denied) return { rule: "publishers.deny", reason: `publisher "${publisher}" matches "${denied}"` };
+  if (policy.publishers?.allow) {
+    if (!publisher || !policy.publishers.allow.some(pattern => matchesGlob(pattern, publisher))) {
+      return { rule: "publishers.allow", reason: `publisher "${publisher ?? "unknown"}" is not in the allow list` };
+    }
+  }
+
+  const blockedRepo = subject.repo ? policy.blockedRepos?.find(pattern => matchesGlob(pattern, subject.repo!)) : undefined;
+  if (blockedRepo) return { rule: "blockedRepos", reason: `repo ${subject.repo} matches "${blockedRepo}"` };
+
+  if (policy.minStars !== undefined) {
+    if (!resource) return noData("minStars");
+    if (resource.stars < policy.minStars) return { rule: "minStars", reason: `${resource.stars} stars, policy requires ${policy.minStars}` };
+  }
+
+  if (policy.requireBadges?.length) {
+    if (!resource) return noData("requireBadges");
+    const has = { official: resource.is_official, verified: resource.is_verified };
+    if (!policy.requireBadges.some(badge => has[badge])) {
+      return { rule: "requireBadges", reason: `"${subject.name}" is not ${policy.requireBadges.join(" or ")}` };
+    }
+  }
+
+  const pending = !resource || (resource.security_score === null && !resource.cisco_scan_result);
+  if (policy.allowPendingScans === false && pending) {
+    return { rule: "allowPendingScans", reason: `"${subject.name}" has not been security scanned yet` };
+  }
+  const maxScore = policy.maxSecurityScore;
+  if (maxScore !== undefined && resource?.security_score != null && resource.security_score > maxScore) {
+    return { rule: "maxSecurityScore", reason: `security score ${resource.security_score} is above ${maxScore}` };
+  }
+
+  if (policy.licenses) {
+    const license = subject.license ?? resource?.license ?? null;
+    if (!license) return { rule: "licenses", reason: `"${subject.name}" declares no license` };
+    if (!policy.licenses.some(allowed => allowed.toLowerCase() === license.toLowerCase())) {
+      return { rule: "licenses", reason: `license ${license} is not allowed (allowed: ${policy.licenses.join(", ")})` };
+    }
+  }
+
+  return null;
+}
+
+export function formatPolicyDenial(subject: PolicySubject, denial: PolicyDenial): string {
+  return `BLOCKED by policy rule "${denial.rule}": ${subject.action} of "${subject.name}" denied, ${denial.reason}.`;
+}
@@ -0,0 +1,248 @@
+/**
+ * VibeClaw Auto-Recommend
+ * Watches the agent for a missing capability (a failed tool call, a "command not found" error,
+ * an "I can't do that" reply, or a request naming an integration nothing handled), searches
+ * Vibe Index for it in the background, and queues the results so the next prompt can offer them.
+ * Suggestions are capped per session, and ones the user dismissed are never shown again.
+ */
+
+import { promises as fs } from "node:fs";
+import type { VibeResource } from "./vibe-index-client.js";
+import type { SkillRegistry } from "./registry.js";
+import { RECOMMENDATIONS_PATH } from "./paths.js";
+
+interface TranscriptMessage {
+  role?: string;
+  content?: unknown;
+  isError?: boolean;
+  toolName?: string;
+}
+
+export interface Recommendation {
+  query: string;
+  reason: string;
+  resources: VibeResource[];
+}
+
+const INABILITY_PATTERN =
+  /\b(I\s+(can(no|['’])t|am\s+(not\s+able|unable)|['’]m\s+(not\s+able|unable)|do\s+not\s+have|don['’]t\s+have)\b[^.\n]{0,60}\b(access|ability|tool|capabilit(y|ies)|integration|do\s+that|help\s+with)|\bbeyond\s+my\s+(current\s+)?capabilities)\b/i;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "can", "could", "do", "for", "from", "have", "help", "how", "into", "its",
+  "just", "like", "me", "my", "need", "please", "some", "that", "the", "then", "this", "to", "use",
+  "want", "what", "when", "where", "which", "will", "with", "would", "you", "your",
+]);
+
+const MISSING_COMMAND_PATTERNS = [
+  // bash, sh, dash: "bash: line 1: ffmpeg: command not found", "sh: 1: ffmpeg: not found"
+  /(?:^|\n)[\w/.-]*sh:(?: line)? ?\d*:? ?([\w.+-]+): (?:command )?not found/,
+  // zsh and fish: "zsh: command not found: ffmpeg", "fish: Unknown command: ffmpeg"
+  /command not found: ([\w.+-]+)/i,
+  /fish: unknown command:? '?([\w.+-]+)'?/i,
+  // cmd.exe
+  /'([\w.+-]+)' is not recognized as an internal or external command/,
+  // spawn errors from Node-based tools
+  /spawn ([\w.+-]+) ENOENT/,
+];
+
+/** Names a "not found" message can carry that no skill would provide. */
+const SHELL_BUILTINS = new Set(["cd", "source", "export", "alias", "sudo", "line"]);
+
+/** Services a user may ask for by name; a request naming one that no tool handled is a gap. */
+const KNOWN_INTEGRATIONS = [
+  "slack", "discord", "telegram", "whatsapp", "gmail", "outlook", "google calendar", "google drive", "google sheets",
+  "notion", "obsidian", "jira", "trello", "asana", "confluence", "github", "gitlab", "figma", "spotify",
+  "youtube", "twitter", "reddit", "stripe", "shopify", "salesforce", "hubspot", "dropbox", "airtable",
+  "postgres", "mysql", "mongodb", "redis", "aws", "kubernetes", "docker", "home assistant",
+];
+
+function textOf(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map(part => (part && typeof part === "object" && (part as { type?: string }).type === "text"
+      ? String((part as { text?: unknown }).text ?? "")
+      : ""))
+    .join("\n");
+}
+
+/**
+ * Reduce a user request to a short keyword query for Vibe Index search.
+ */
+export function extractKeywords(text: string, max = 6): string {
+  const words = text.toLowerCase().match(/[a-z0-9][a-z0-9.+#-]*/g) ?? [];
+  const keywords: string[] = [];
+  for (const word of words) {
+    if (word.length < 3 || STOPWORDS.has(word) || keywords.includes(word)) continue;
+    keywords.push(word);
+    if (keywords.length === max) break;
+  }
+  return keywords.join(" ");
+}
+
+/**
+ * Find the command a shell reported missing, e.g. "ffmpeg" in "bash: ffmpeg: command not found".
+ */
+export function detectMissingCommand(text: string): string | null {
+  const match = MISSING_COMMAND_PATTERNS.map(pattern => pattern.exec(text)).find(Boolean);
+  const command = match?.[1].toLowerCase();
+  return command && !SHELL_BUILTINS.has(command) ? command : null;
+}
+
+/**
+ * Integrations the text names, in the order they appear.
+ */
+export function detectIntegrations(text: string): string[] {
+  const lower = text.toLowerCase();
+  return KNOWN_INTEGRATIONS
+    .map(name => ({ name, at: lower.search(new RegExp(`\\b${name.replace(/ /g, "\\s+")}\\b`)) }))
+    .filter(found => found.at >= 0)
+    .sort((a, b) => a.at - b.at)
+    .map(found => found.name);
+}
+
+/**
+ * Look at the last turn of a transcript for a capability gap.
+ * Returns the search query and the reason, or null if the turn went fine.
+ * `available` names installed skills and tools, so integrations they cover aren't reported.
+ */
+export function detectCapabilityGap(messages: unknown[], available: string[] = []): { query: string; reason: string } | null {
+  const transcript = messages as TranscriptMessage[];
+  let lastUser = -1;
+  for (let i = transcript.length - 1; i >= 0; i--) {
+    if (transcript[i]?.role === "user") { lastUser = i; break; }
+  }
+  if (lastUser < 0) return null;
+
+  const turn = transcript.slice(lastUser + 1);
+  // The agent already went looking on its own; don't second-guess it
+  const searched = turn.some(m => m?.role === "toolResult" && m.toolName?.startsWith("vibeclaw_"));
+  if (searched) return null;
+
+  const results = turn.filter(m => m?.role === "toolResult" && !m.toolName?.startsWith("vibeclaw_"));
+  const missing = results.map(m => detectMissingCommand(textOf(m.content))).find(Boolean);
+  if (missing) return { query: missing, reason: `command "${missing}" not found` };
+
+  const request = textOf(transcript[lastUser].content);
+  const failedTool = results.find(m => m.isError);
+  const lastReply = [...turn].reverse().find(m => m?.role === "assistant");
+  const refused = lastReply ? INABILITY_PATTERN.test(textOf(lastReply.content)) : false;
+  if (failedTool || refused) {
+    const query = extractKeywords(request);
+    if (!query) return null;
+    return {
+      query,
+      reason: failedTool ? `tool "${failedTool.toolName}" failed` : "the request could not be handled",
+    };
+  }
+
+  const handled = [...available, ...results.map(m => m.toolName ?? "")].map(name => name.toLowerCase().replace(/[-_]+/g, " "));
+  const unhandled = detectIntegrations(request).find(name => !handled.some(tool => tool.includes(name)));
+  return unhandled ? { query: unhandled, reason: `"${unhandled}" was requested but no tool for it ran` } : null;
+}
+
+interface SessionState {
+  /** Search results by query, so a gap that comes up again doesn't search again. */
+  searches: Map<string, Promise<VibeResource[]>>;
+  pending: Recommendation[];
+  /** Resource ids already suggested in this session. */
+  shown: Set<string>;
+}
+
+export class AutoRecommender {
+  private client: SkillRegistry;
+  private maxResults: number;
+  private maxPerSession: number;
+  private sessions = new Map<string, SessionState>();
+  private dismissed: Promise<Set<string>> | null = null;
+
+  constructor(client: SkillRegistry, opts: { maxResults: number; maxPerSession: number }) {
+    this.client = client;
+    this.maxResults = opts.maxResults;
+    this.maxPerSession = opts.maxPerSession;
+  }
+
+  private session(sessionKey: string): SessionState {
+    let state = this.sessions.get(sessionKey);
+    if (!state) {
+      state = { searches: new Map(), pending: [], shown: new Set() };
+      this.sessions.set(sessionKey, state);
+    }
+    return state;
+  }
+
+  private loadDismissed(): Promise<Set<string>> {
+    this.dismissed ??= fs.readFile(RECOMMENDATIONS_PATH, "utf-8")
+      .then(raw => new Set((JSON.parse(raw) as { dismissed?: string[] }).dismissed ?? []))
+      .catch(() => new Set<string>());
+    return this.dismissed;
+  }
+
+  /**
+   * Search for a gap once per session and queue what comes back. Best-effort: a failed
+   * search queues nothing and never reaches the agent loop.
+   */
+  private async suggest(sessionKey: string, gap: { query: string; reason: string }): Promise<void> {
+    const state = this.session(sessionKey);
+    if (state.shown.size >= this.maxPerSession) return;
+    let search = state.searches.get(gap.query);
+    if (search) return;
+    search = this.client.search(gap.query, { limit: this.maxResults })
+      .then(result => (result.success ? result.data.slice(0, this.maxResults) : []))
+      .catch(() => []);
+    state.searches.set(gap.query, search);
+    const resources = await search;
+    if (resources.length > 0) state.pending.push({ ...gap, resources });
+  }
+
+  /**
+   * Inspect a finished turn and, if a capability was missing, queue suggestions for the session.
+   */
+  async onAgentEnd(messages: unknown[], sessionKey: string, available: string[] = []): Promise<void> {
+    const gap = detectCapabilityGap(messages, available);
+    if (gap) await this.suggest(sessionKey, gap);
+  }
+
+  /**
+   * Inspect a single tool call as soon as it returns, for a command the shell couldn't find.
+   * Callers don't need to wait for the search.
+   */
+  async onToolCall(toolName: string, result: unknown, error: string | undefined, sessionKey: string): Promise<void> {
+    if (toolName.startsWith("vibeclaw_")) return;
+    const output = `${error ?? ""}\n${textOf((result as { content?: unknown } | undefined)?.content ?? result)}`;
+    const command = detectMissingCommand(output);
+    if (command) await this.suggest(sessionKey, { query: command, reason: `command "${command}" not found` });
+  }
+
+  /**
+   * Return and clear the queued suggestions for a session, without anything dismissed or
+   * already suggested, and no more than the session has left.
+   */
+  async take(sessionKey: string): Promise<Recommendation[]> {
+    const state = this.sessions.get(sessionKey);
+    if (!state?.pending.length) return [];
+    const dismissed = await this.loadDismissed();
+    const recommendations: Recommendation[] = [];
+    for (const recommendation of state.pending.splice(0)) {
+      const resources = recommendation.resources
+        .filter(r => !dismissed.has(r.id) && !state.shown.has(r.id))
+        .slice(0, this.maxPerSession - state.shown.size);
+      for (const r of resources) state.shown.add(r.id);
+      if (resources.length > 0) recommendations.push({ ...recommendation, resources });
+    }
+    return recommendations;
+  }
+
+  /**
+   * Never suggest this resource again, in any session.
+   */
+  async dismiss(resourceId: string): Promise<void> {
+    const dismissed = await this.loadDismissed();
+    dismissed.add(resourceId);
+    await fs.writeFile(RECOMMENDATIONS_PATH, JSON.stringify({ dismissed: [...dismissed] }, null, 2) + "\n", "utf-8");
+  }
+
+  endSession(sessionKey: string): void {
+    this.sessions.delete(sessionKey);
+  }
+}
@@ -0,0 +1,297 @@
+/**
+ * VibeClaw Registries
+ * The search/trending/install interface shared by Vibe Index and other catalogs, and a
+ * RegistrySet that queries an ordered list of them and merges the results.
+ */
+
+import type {
+  VibeResource,
+  VibeSearchResult,
+  VibeTrendingResult,
+  VibeInstallResult,
+  VibeResourceResult,
+  CacheInfo,
+} from "./vibe-index-client.js";
+import { VibeIndexNotFoundError } from "./errors.js";
+import { VibeIndexClient } from "./vibe-index-client.js";
+import { LocalCatalog } from "./local-catalog.js";
+import { ResponseCache } from "./response-cache.js";
+
+/**
+ * How far results from a registry are trusted:
+ * - trusted: a vetted internal mirror, shown first when results collide
+ * - standard: a public catalog such as Vibe Index (default)
+ * - untrusted: results are shown but cannot be installed
+ */
+export type RegistryTrust = "trusted" | "standard" | "untrusted";
+
+export interface SkillRegistry {
+  search(query: string, opts?: { type?: string; limit?: number; offset?: number }): Promise<VibeSearchResult>;
+  trending(opts?: { period?: "day" | "week" | "month"; type?: string; limit?: number }): Promise<VibeTrendingResult>;
+  getResource(id: string): Promise<VibeResourceResult>;
+  getInstallInfo(name: string, type?: string): Promise<VibeInstallResult>;
+}
+
+/** One entry of the `registries` plugin config. */
+export interface RegistryConfig {
+  id?: string;
+  type?: "vibeindex" | "local";
+  /** API base URL (vibeindex). Defaults to https://vibeindex.ai/api/v1. */
+  url?: string;
+  /** JSON file or directory of JSON files (local). */
+  path?: string;
+  apiKey?: string;
+  trust?: RegistryTrust;
+}
+
+export interface RegistrySource {
+  id: string;
+  trust: RegistryTrust;
+  registry: SkillRegistry;
+}
+
+/** Most results the Vibe Index API returns for one search request. */
+const MAX_PAGE_SIZE = 50;
+
+/** Registry id of the public Vibe Index, whose resource ids are used as they are. */
+const DEFAULT_REGISTRY_ID = "vibeindex";
+
+/** Searches whose paging state is kept; the oldest is dropped past this. */
+const MAX_SEARCH_STATES = 20;
+
+/** One source's hits for a query, in the order it returned them. */
+interface SourceHits {
+  source: RegistrySource;
+  hits: VibeResource[];
+  total: number;
+  /** Every hit has been read. */
+  done: boolean;
+  /** Hits already considered for the merged list. */
+  merged: number;
+}
+
+/**
+ * A query paged through a RegistrySet: the merged list is every source's hits in source order,
+ * read from each source with its own offset as far as the pages asked for so far needed.
+ */
+interface SearchState {
+  query: string;
+  type?: string;
+  /** Sources whose first page failed are left out. */
+  sources: SourceHits[];
+  /** Index into `sources` of the one being merged. */
+  current: number;
+  merged: VibeResource[];
+  seen: Set<string>;
+  cached?: CacheInfo;
+}
+
+/**
+ * A resource id unique across registries: Vibe Index ids stay as they are, other registries'
+ * ids are prefixed with the registry id ("mirror:abc"), since ids from different catalogs collide.
+ */
+function qualifyId(source: RegistrySource, id: string): string {
+  return source.id === DEFAULT_REGISTRY_ID ? id : `${source.id}:${id}`;
+}
+
+/** A resource as returned by a RegistrySet: namespaced ids, tagged with its registry and trust. */
+function fromSource<R extends VibeResource>(source: RegistrySource, resource: R): R {
+  return {
+    ...resource,
+    id: qualifyId(source, resource.id),
+    dependencies: resource.dependencies?.map(dep => (dep.id ? { ...dep, id: qualifyId(source, dep.id) } : dep)),
+    registry: source.id,
+    trust: source.trust,
+  };
+}
+
+/**
+ * Key used to spot the same resource listed by several registries.
+ */
+function dedupeKey(r: VibeResource): string {
+  if (r.github_owner && r.github_repo) {
+    return `${r.resource_type}:${r.github_owner}/${r.github_repo}/${r.slug}`.toLowerCase();
+  }
+  return `${r.resource_type}:${r.slug}`.toLowerCase();
+}
+
+/**
+ * Query every source and merge the settled results in source order.
+ * Fails only when every source failed.
+ */
+async function gather<T extends { success: boolean; data: VibeResource[]; cached?: CacheInfo }>(
+  sources: RegistrySource[],
+  call: (registry: SkillRegistry) => Promise<T>,
+): Promise<{ data: T["data"]; cached?: CacheInfo }> {
+  const settled = await Promise.allSettled(sources.map(source => call(source.registry)));
+  const failures = settled.filter((s): s is PromiseRejectedResult => s.status === "rejected");
+  if (failures.length === sources.length) throw failures[0].reason;
+
+  const seen = new Set<string>();
+  const data: VibeResource[] = [];
+  let cached: CacheInfo | undefined;
+  settled.forEach((outcome, i) => {
+    if (outcome.status !== "fulfilled" || !outcome.value.success) return;
+    const result = outcome.value;
+    cached ??= result.cached;
+    for (const resource of result.data) {
+      const key = dedupeKey(resource);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      data.push(fromSource(sources[i], resource));
+    }
+  });
+  return { data, cached };
+}
+
+export class RegistrySet implements SkillRegistry {
+  private sources: RegistrySource[];
+  /** Paging state per query and type, most recently used last. */
+  private searches = new Map<string, SearchState>();
+
+  constructor(sources: RegistrySource[]) {
+    // Trusted mirrors win collisions; otherwise keep the configured order
+    const rank = (trust: RegistryTrust) => (trust === "trusted" ? 0 : trust === "standard" ? 1 : 2);
+    this.sources = [...sources].sort((a, b) => rank(a.trust) - rank(b.trust));
+  }
+
+  /**
+   * One page of the merged results. A search starting at offset 0 queries every source afresh;
+   * later pages continue each source from where the previous page left it.
+   */
+  async search(query: string, opts?: { type?: string; limit?: number; offset?: number }): Promise<VibeSearchResult> {
+    const limit = opts?.limit ?? 5;
+    const offset = opts?.offset ?? 0;
+    const key = JSON.stringify([query, opts?.type ?? ""]);
+    let state = offset > 0 ? this.searches.get(key) : undefined;
+    state ??= await this.startSearch(query, opts?.type, offset + limit);
+    this.searches.delete(key);
+    this.searches.set(key, state);
+    if (this.searches.size > MAX_SEARCH_STATES) this.searches.delete(this.searches.keys().next().value!);
+
+    await this.fill(state, offset + limit);
+    const total = Math.max(state.merged.length, state.sources.reduce((sum, hits) => sum + hits.total, 0));
+    return {
+      success: true,
+      data: state.merged.slice(offset, offset + limit),
+      pagination: { limit, offset, total },
+      cached: state.cached,
+    };
+  }
+
+  /**
+   * Read the first page of every source at once, for their totals. Fails only when every source failed.
+   */
+  private async startSearch(query: string, type: string | undefined, count: number): Promise<SearchState> {
+    const pageSize = Math.min(count, MAX_PAGE_SIZE);
+    const settled = await Promise.allSettled(this.sources.map(source => source.registry.search(query, { type, limit: pageSize, offset: 0 })));
+    const failures = settled.filter((s): s is PromiseRejectedResult => s.status === "rejected");
+    if (failures.length === this.sources.length) throw failures[0].reason;
+
+    const state: SearchState = { query, type, sources: [], current: 0, merged: [], seen: new Set() };
+    settled.forEach((outcome, i) => {
+      if (outcome.status !== "fulfilled" || !outcome.value.success) return;
+      const { data, pagination, cached } = outcome.value;
+      const total = pagination?.total ?? data.length;
+      state.cached ??= cached;
+      state.sources.push({
+        source: this.sources[i],
+        hits: data.map(resource => fromSource(this.sources[i], resource)),
+        total,
+        done: data.length < pageSize || data.length >= total,
+        merged: 0,
+      });
+    });
+    return state;
+  }
+
+  /**
+   * Grow the merged list to `count` results, reading further pages from each source in turn
+   * only once the sources before it are used up.
+   */
+  private async fill(state: SearchState, count: number): Promise<void> {
+    while (state.merged.length < count && state.current < state.sources.length) {
+      const source = state.sources[state.current];
+      for (; source.merged < source.hits.length && state.merged.length < count; source.merged++) {
+        const resource = source.hits[source.merged];
+        const key = dedupeKey(resource);
+        if (state.seen.has(key)) continue;
+        state.seen.add(key);
+        state.merged.push(resource);
+      }
+      if (state.merged.length >= count) return;
+      if (source.done) {
+        state.current++;
+        continue;
+      }
+      const pageSize = Math.min(count - state.merged.length, MAX_PAGE_SIZE);
+      const page = await source.source.registry.search(state.query, { type: state.type, limit: pageSize, offset: source.hits.length });
+      const data = page.success ? page.data : [];
+      source.hits.push(...data.map(resource => fromSource(source.source, resource)));
+      source.done = data.length < pageSize || source.hits.length >= source.total;
+    }
+  }
+
+  async trending(opts?: { period?: "day" | "week" | "month"; type?: string; limit?: number }): Promise<VibeTrendingResult> {
+    const merged = await gather(this.sources, registry => registry.trending(opts));
+    return { success: true, data: merged.data.slice(0, opts?.limit ?? 5), cached: merged.cached };
+  }
+
+  /**
+   * Look up a resource by the id a RegistrySet gave it. A prefixed id goes to its registry only;
+   * an unprefixed one is a Vibe Index id, and for ids recorded before they were namespaced,
+   * the other registries are tried after Vibe Index.
+   */
+  async getResource(id: string): Promise<VibeResourceResult> {
+    const prefix = id.slice(0, Math.max(id.indexOf(":"), 0));
+    const named = this.sources.find(source => source.id !== DEFAULT_REGISTRY_ID && source.id === prefix);
+    const candidates = named
+      ? [{ source: named, id: id.slice(prefix.length + 1) }]
+      : [...this.sources].sort((a, b) => Number(b.id === DEFAULT_REGISTRY_ID) - Number(a.id === DEFAULT_REGISTRY_ID)).map(source => ({ source, id }));
+    for (const candidate of candidates) {
+      try {
+        const result = await candidate.source.registry.getResource(candidate.id);
+        if (result.success) return { ...result, data: fromSource(candidate.source, result.data) };
+      } catch (err) {
+        if (!(err instanceof VibeIndexNotFoundError)) throw err;
+      }
+    }
+    throw new VibeIndexNotFoundError(`/resources/${id}`);
+  }
+
+  async getInstallInfo(name: string, type?: string): Promise<VibeInstallResult> {
+    let lastError: unknown = new VibeIndexNotFoundError("/install");
+    for (const source of this.sources) {
+      try {
+        const result = await source.registry.getInstallInfo(name, type);
+        if (result.success) return result;
+      } catch (err) {
+        lastError = err;
+      }
+    }
+    throw lastError;
+  }
+}
+
+/**
+ * Build the RegistrySet for the configured sources.
+ * The top-level apiKey only applies to entries using the default Vibe Index URL,
+ * so it is never sent to a self-hosted host.
+ */
+export function createRegistrySet(
+  configs: RegistryConfig[],
+  opts: { apiKey?: string; cache?: ResponseCache; offline?: boolean; resolvePath?: (input: string) => string },
+): RegistrySet {
+  const sources = configs.map((config, i): RegistrySource => {
+    const type = config.type ?? (config.path ? "local" : "vibeindex");
+    const id = config.id ?? (type === "local" ? `local-${i + 1}` : config.url ? new URL(config.url).host : DEFAULT_REGISTRY_ID);
+    const trust = config.trust ?? "standard";
+    if (type === "local") {
+      if (!config.path) throw new Error(`Registry "${id}" is type local but has no path.`);
+      return { id, trust, registry: new LocalCatalog(opts.resolvePath ? opts.resolvePath(config.path) : config.path) };
+    }
+    const apiKey = config.apiKey ?? (config.url ? undefined : opts.apiKey);
+    return { id, trust, registry: new VibeIndexClient(apiKey, config.url, { cache: opts.cache, offline: opts.offline }) };
+  });
+  return new RegistrySet(sources);
+}
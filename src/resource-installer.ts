@@ -0,0 +1,274 @@
+/**
+ * VibeClaw Resource Installer
+ * Installs MCP servers and plugins found in Vibe Index by writing them into the
+ * OpenClaw config (mcp.servers / plugins.entries), and tracks what it added so
+ * it can be listed, audited and removed later.
+ */
+
+import { promises as fs } from "node:fs";
+import type { OpenClawPluginApi } from "openclaw/plugin-sdk";
+import { RESOURCES_PATH } from "./paths.js";
+
+export type ConfigIO = OpenClawPluginApi["runtime"]["config"];
+
+export type TrackedResourceType = "mcp" | "plugin";
+
+export interface ResourceMeta {
+  installedBy: string;
+  installedAt: string;
+  type: TrackedResourceType;
+  /** Key under mcp.servers or plugins.entries. */
+  configKey: string;
+  name: string;
+  source: string;
+  /** Vibe Index id of the installed resource, so audits look up exactly this entry. */
+  resourceId?: string;
+  installCommand: string;
+}
+
+/** A config entry and its tracking record, as they were before a forced reinstall replaced them. */
+export interface ReplacedResource {
+  entry: Record<string, unknown>;
+  meta: ResourceMeta;
+}
+
+export interface ResourceInstallResult {
+  success: boolean;
+  name: string;
+  configKey?: string;
+  /** What was written to the OpenClaw config. */
+  entry?: Record<string, unknown>;
+  error?: string;
+  alreadyInstalled?: boolean;
+  /** Set when force replaced an earlier VibeClaw entry; restoreResource puts it back. */
+  previous?: ReplacedResource;
+}
+
+/** Commands that start an MCP server directly, as opposed to installing something. */
+const MCP_LAUNCHERS = new Set(["npx", "bunx", "uvx", "uv", "pipx", "docker", "node", "deno", "python", "python3"]);
+
+/**
+ * Turn a resource name into a config key: lowercase alphanumerics, hyphens and underscores.
+ */
+export function toConfigKey(name: string): string | null {
+  const key = name.toLowerCase().replace(/[^a-z0-9\-_]+/g, "-").replace(/^-+|-+$/g, "");
+  return key || null;
+}
+
+/**
+ * Split a shell command line into arguments, honouring single and double quotes.
+ */
+function splitCommand(command: string): string[] {
+  const args: string[] = [];
+  const re = /"((?:\\.|[^"\\])*)"|'([^']*)'|(\S+)/g;
+  for (let match = re.exec(command); match; match = re.exec(command)) {
+    args.push(match[1]?.replace(/\\(.)/g, "$1") ?? match[2] ?? match[3]);
+  }
+  return args;
+}
+
+/**
+ * Derive an mcp.servers entry from an install command such as
+ * `npx -y @scope/server`, `claude mcp add name -e KEY=value -- uvx server` or a bare server URL.
+ */
+export function parseMcpCommand(command: string): Record<string, unknown> | null {
+  let args = splitCommand(command.trim());
+  const env: Record<string, string> = {};
+
+  if (args.length === 1 && /^https?:\/\//.test(args[0])) {
+    return { url: args[0] };
+  }
+
+  // `<client> mcp add [options] <name> -- <command...>` (Claude Code, Codex and friends)
+  const sep = args.indexOf("--");
+  if (sep >= 0) {
+    const head = args.slice(0, sep);
+    for (let i = 0; i < head.length - 1; i++) {
+      if (head[i] === "-e" || head[i] === "--env") {
+        const [key, ...value] = head[i + 1].split("=");
+        if (key && value.length) env[key] = value.join("=");
+      }
+    }
+    args = args.slice(sep + 1);
+  } else if (args[1] === "mcp" && args[2] === "add") {
+    // `claude mcp add --transport http name https://...`
+    const url = args.find(arg => /^https?:\/\//.test(arg));
+    return url ? { url } : null;
+  }
+
+  if (args.length === 0 || !MCP_LAUNCHERS.has(args[0])) return null;
+  const entry: Record<string, unknown> = { command: args[0], args: args.slice(1) };
+  if (Object.keys(env).length > 0) entry.env = env;
+  return entry;
+}
+
+async function readResources(): Promise<Record<string, ResourceMeta>> {
+  try {
+    return JSON.parse(await fs.readFile(RESOURCES_PATH, "utf-8"));
+  } catch {
+    return {};
+  }
+}
+
+async function writeResources(resources: Record<string, ResourceMeta>): Promise<void> {
+  await fs.writeFile(RESOURCES_PATH, JSON.stringify(resources, null, 2), "utf-8");
+}
+
+function resourceId(type: TrackedResourceType, configKey: string): string {
+  return `${type}:${configKey}`;
+}
+
+/**
+ * List all MCP servers and plugins VibeClaw added to the OpenClaw config
+ */
+export async function listInstalledResources(): Promise<ResourceMeta[]> {
+  return Object.values(await readResources());
+}
+
+/**
+ * Add an MCP server to mcp.servers. Entries that VibeClaw did not create are never overwritten.
+ */
+export async function installMcpServer(
+  config: ConfigIO,
+  name: string,
+  installCommand: string,
+  source: string,
+  opts?: { force?: boolean; resourceId?: string },
+): Promise<ResourceInstallResult> {
+  const configKey = toConfigKey(name);
+  if (!configKey) return { success: false, name, error: `Invalid MCP server name "${name}".` };
+
+  const entry = parseMcpCommand(installCommand);
+  if (!entry) {
+    return {
+      success: false,
+      name,
+      error: `Could not derive a server command from "${installCommand}". Add it manually with /mcp set.`,
+    };
+  }
+
+  const resources = await readResources();
+  const tracked = resources[resourceId("mcp", configKey)];
+  const cfg = config.loadConfig();
+  const existing = cfg.mcp?.servers?.[configKey];
+  if (existing) {
+    if (!tracked) {
+      return { success: false, name, configKey, error: `mcp.servers.${configKey} already exists and was not added by VibeClaw.` };
+    }
+    if (!opts?.force) return { success: true, name, configKey, entry: existing, alreadyInstalled: true };
+  }
+  const previous = existing && tracked ? { entry: existing, meta: tracked } : undefined;
+
+  await config.writeConfigFile({
+    ...cfg,
+    mcp: { ...cfg.mcp, servers: { ...cfg.mcp?.servers, [configKey]: entry } },
+  });
+
+  resources[resourceId("mcp", configKey)] = {
+    installedBy: "vibeclaw",
+    installedAt: new Date().toISOString(),
+    type: "mcp",
+    configKey,
+    name,
+    source,
+    resourceId: opts?.resourceId,
+    installCommand,
+  };
+  await writeResources(resources);
+
+  return { success: true, name, configKey, entry, previous };
+}
+
+/**
+ * Register a plugin under plugins.entries, keyed by `name` (its plugin id). This only enables
+ * the entry and tracks it; the user installs the package itself with `installCommand`.
+ */
+export async function registerPlugin(
+  config: ConfigIO,
+  name: string,
+  installCommand: string,
+  source: string,
+  opts?: { force?: boolean; resourceId?: string },
+): Promise<ResourceInstallResult> {
+  const configKey = toConfigKey(name);
+  if (!configKey) return { success: false, name, error: `Invalid plugin name "${name}".` };
+
+  const resources = await readResources();
+  const tracked = resources[resourceId("plugin", configKey)];
+  const cfg = config.loadConfig();
+  const existing = cfg.plugins?.entries?.[configKey];
+  if (existing) {
+    if (!tracked) {
+      return { success: false, name, configKey, error: `plugins.entries.${configKey} already exists and was not added by VibeClaw.` };
+    }
+    if (!opts?.force) return { success: true, name, configKey, entry: existing, alreadyInstalled: true };
+  }
+  const previous = existing && tracked ? { entry: existing, meta: tracked } : undefined;
+
+  const entry = { enabled: true };
+  await config.writeConfigFile({
+    ...cfg,
+    plugins: { ...cfg.plugins, entries: { ...cfg.plugins?.entries, [configKey]: entry } },
+  });
+
+  resources[resourceId("plugin", configKey)] = {
+    installedBy: "vibeclaw",
+    installedAt: new Date().toISOString(),
+    type: "plugin",
+    configKey,
+    name,
+    source,
+    resourceId: opts?.resourceId,
+    installCommand,
+  };
+  await writeResources(resources);
+
+  return { success: true, name, configKey, entry, previous };
+}
+
+/**
+ * Whether mcp.servers already has an entry for this name, whoever added it
+ */
+export function isMcpServerConfigured(config: ConfigIO, name: string): boolean {
+  const configKey = toConfigKey(name);
+  return !!configKey && !!config.loadConfig().mcp?.servers?.[configKey];
+}
+
+/**
+ * Put back an MCP server or plugin entry that a forced reinstall replaced, with its tracking record.
+ */
+export async function restoreResource(config: ConfigIO, previous: ReplacedResource): Promise<void> {
+  const { entry, meta } = previous;
+  const cfg = config.loadConfig();
+  await config.writeConfigFile(meta.type === "mcp"
+    ? { ...cfg, mcp: { ...cfg.mcp, servers: { ...cfg.mcp?.servers, [meta.configKey]: entry } } }
+    : { ...cfg, plugins: { ...cfg.plugins, entries: { ...cfg.plugins?.entries, [meta.configKey]: entry } } });
+  const resources = await readResources();
+  resources[resourceId(meta.type, meta.configKey)] = meta;
+  await writeResources(resources);
+}
+
+/**
+ * Remove a VibeClaw-added MCP server or plugin entry from the OpenClaw config
+ */
+export async function uninstallResource(config: ConfigIO, type: TrackedResourceType, name: string): Promise<boolean> {
+  const configKey = toConfigKey(name);
+  if (!configKey) return false;
+  const resources = await readResources();
+  const id = resourceId(type, configKey);
+  if (!resources[id]) return false;
+
+  const cfg = config.loadConfig();
+  if (type === "mcp" && cfg.mcp?.servers?.[configKey]) {
+    const { [configKey]: _removed, ...servers } = cfg.mcp.servers;
+    await config.writeConfigFile({ ...cfg, mcp: { ...cfg.mcp, servers } });
+  }
+  if (type === "plugin" && cfg.plugins?.entries?.[configKey]) {
+    const { [configKey]: _removed, ...entries } = cfg.plugins.entries;
+    await config.writeConfigFile({ ...cfg, plugins: { ...cfg.plugins, entries } });
+  }
+
+  delete resources[id];
+  await writeResources(resources);
+  return true;
+}
@@ -0,0 +1,59 @@
+/**
+ * VibeClaw Response Cache
+ * Persistent on-disk cache of Vibe Index API responses, one JSON file per request URL.
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { createHash } from "node:crypto";
+
+export interface CacheEntry<T = unknown> {
+  url: string;
+  /** Epoch milliseconds when the response was stored or last revalidated. */
+  storedAt: number;
+  etag?: string;
+  body: T;
+}
+
+export class ResponseCache {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.dir, `${createHash("sha256").update(key).digest("hex")}.json`);
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    try {
+      const entry = JSON.parse(await fs.readFile(this.fileFor(key), "utf-8")) as CacheEntry<T>;
+      // Guard against hash collisions and hand-edited files
+      return entry.url === key ? entry : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async set<T>(key: string, body: T, etag?: string): Promise<void> {
+    const entry: CacheEntry<T> = { url: key, storedAt: Date.now(), etag, body };
+    try {
+      await fs.mkdir(this.dir, { recursive: true });
+      // Write-then-rename so a concurrent reader never sees a half-written file
+      const file = this.fileFor(key);
+      const tmp = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(entry), "utf-8");
+      await fs.rename(tmp, file);
+    } catch {
+      // Caching is best-effort
+    }
+  }
+
+  /**
+   * Mark an entry as fresh again after a 304 Not Modified.
+   */
+  async touch<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    await this.set(key, entry.body, entry.etag);
+  }
+}
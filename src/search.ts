@@ -0,0 +1,167 @@
+/**
+ * VibeClaw Search
+ * Filtered, sorted and paged search on top of any SkillRegistry. The registries only take a
+ * query, a type and an offset, so every filter here is applied client-side: results are read
+ * in batches until a page is full, and the cursor remembers where the next page starts.
+ */
+
+import { createHash } from "node:crypto";
+import type { VibeResource, CacheInfo } from "./vibe-index-client.js";
+import type { SkillRegistry } from "./registry.js";
+import { matchesGlob } from "./policy.js";
+
+export interface SearchFilters {
+  /** Every tag must be present (case-insensitive). */
+  tags?: string[];
+  minStars?: number;
+  official?: boolean;
+  verified?: boolean;
+  /** GitHub owner, or a glob such as "acme-*". */
+  publisher?: string;
+  /** Drop results scoring above this or failing the Cisco scan, like the policy rule of the same name. */
+  maxSecurityScore?: number;
+  /** Drop results that have not been security scanned yet. */
+  scannedOnly?: boolean;
+}
+
+export type SearchSort = "relevance" | "stars" | "recency";
+
+export interface SearchPage {
+  data: VibeResource[];
+  /** Registry hits for the query before filtering. */
+  total: number;
+  /** Pass back as cursor for the next page; null when there is none. */
+  nextCursor: string | null;
+  /** Registry results read to fill this page. */
+  scanned: number;
+  cached?: CacheInfo;
+}
+
+/** Results requested from the registry per round trip while filtering. */
+const BATCH_SIZE = 50;
+
+/**
+ * Registry results read for one page. Sorting by stars or recency ranks this many of the most
+ * relevant results, since the registries can only return them by relevance.
+ */
+export const MAX_SCAN = 200;
+
+export function hasFilters(filters: SearchFilters): boolean {
+  return Object.values(filters).some(value => value !== undefined && value !== false && !(Array.isArray(value) && value.length === 0));
+}
+
+export function matchesFilters(r: VibeResource, filters: SearchFilters): boolean {
+  const tags = r.tags.map(tag => tag.toLowerCase());
+  if (filters.tags?.some(tag => !tags.includes(tag.toLowerCase()))) return false;
+  if (filters.minStars !== undefined && (r.star_info?.count ?? r.stars) < filters.minStars) return false;
+  if (filters.official && !(r.badges?.official || r.is_official)) return false;
+  if (filters.verified && !(r.badges?.verified || r.is_verified)) return false;
+  if (filters.publisher && !(r.github_owner && matchesGlob(filters.publisher, r.github_owner))) return false;
+  if (filters.maxSecurityScore !== undefined) {
+    if (r.cisco_scan_result && !r.cisco_scan_result.is_safe) return false;
+    if (r.security_score !== null && r.security_score > filters.maxSecurityScore) return false;
+  }
+  if (filters.scannedOnly && r.security_score === null && !r.cisco_scan_result) return false;
+  return true;
+}
+
+function sortResources(resources: VibeResource[], sort: SearchSort): VibeResource[] {
+  if (sort === "relevance") return resources;
+  const stars = (r: VibeResource) => r.star_info?.count ?? r.stars;
+  const updated = (r: VibeResource) => (r.updated_at ? Date.parse(r.updated_at) || 0 : 0);
+  return [...resources].sort(sort === "stars"
+    ? (a, b) => stars(b) - stars(a)
+    : (a, b) => updated(b) - updated(a) || stars(b) - stars(a));
+}
+
+/** Ties a cursor to the search it came from, so it isn't replayed against another one. */
+function searchKey(query: string, type: string | undefined, filters: SearchFilters, sort: SearchSort): string {
+  const { tags, minStars, official, verified, publisher, maxSecurityScore, scannedOnly } = filters;
+  const spec = [query, type, tags?.map(tag => tag.toLowerCase()).sort(), minStars, official, verified, publisher, maxSecurityScore, scannedOnly, sort];
+  return createHash("sha256").update(JSON.stringify(spec)).digest("hex").slice(0, 12);
+}
+
+function encodeCursor(offset: number, key: string): string {
+  return Buffer.from(JSON.stringify({ o: offset, k: key })).toString("base64url");
+}
+
+function decodeCursor(cursor: string, key: string): number | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8")) as { o?: unknown; k?: unknown };
+    return parsed.k === key && Number.isInteger(parsed.o) && (parsed.o as number) >= 0 ? parsed.o as number : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * One page of search results. Relevance-ordered searches page through the registry itself, so
+ * the cursor is a registry offset; stars and recency rank the first MAX_SCAN results and page
+ * through that ranking. Throws on a cursor from a different search.
+ */
+export async function searchResources(
+  client: SkillRegistry,
+  query: string,
+  opts: { type?: string; limit: number; filters?: SearchFilters; sort?: SearchSort; cursor?: string },
+): Promise<SearchPage> {
+  const filters = opts.filters ?? {};
+  const sort = opts.sort ?? "relevance";
+  const key = searchKey(query, opts.type, filters, sort);
+  const start = opts.cursor ? decodeCursor(opts.cursor, key) : 0;
+  if (start === null) throw new Error("cursor does not belong to this search; repeat the search without it");
+
+  // Without filters or sorting the registry's own paging is all that's needed
+  if (sort === "relevance" && !hasFilters(filters)) {
+    const result = await client.search(query, { type: opts.type, limit: opts.limit, offset: start });
+    const data = result.success ? result.data : [];
+    const total = result.pagination?.total ?? start + data.length;
+    const next = start + data.length;
+    return {
+      data,
+      total: data.length ? total : 0,
+      nextCursor: data.length === opts.limit && next < total ? encodeCursor(next, key) : null,
+      scanned: data.length,
+      cached: result.cached,
+    };
+  }
+
+  const ranked = sort !== "relevance";
+  const matches: Array<{ resource: VibeResource; position: number }> = [];
+  let offset = ranked ? 0 : start;
+  let total = 0;
+  let exhausted = false;
+  let cached: CacheInfo | undefined;
+  while (offset < (ranked ? MAX_SCAN : start + MAX_SCAN) && (ranked || matches.length < opts.limit)) {
+    const result = await client.search(query, { type: opts.type, limit: BATCH_SIZE, offset });
+    const batch = result.success ? result.data : [];
+    cached ??= result.cached;
+    total = Math.max(total, result.pagination?.total ?? offset + batch.length);
+    batch.forEach((resource, i) => {
+      if (matchesFilters(resource, filters)) matches.push({ resource, position: offset + i });
+    });
+    offset += batch.length;
+    if (batch.length < BATCH_SIZE || offset >= total) { exhausted = true; break; }
+  }
+
+  if (ranked) {
+    const sorted = sortResources(matches.map(match => match.resource), sort);
+    const next = start + opts.limit;
+    return {
+      data: sorted.slice(start, next),
+      total,
+      nextCursor: next < sorted.length ? encodeCursor(next, key) : null,
+      scanned: offset,
+      cached,
+    };
+  }
+  const page = matches.slice(0, opts.limit);
+  // Resume after the last result shown, or after everything read when the page came up short
+  const resume = matches.length > opts.limit ? page[page.length - 1].position + 1 : offset;
+  return {
+    data: page.map(match => match.resource),
+    total,
+    nextCursor: exhausted && matches.length <= opts.limit ? null : encodeCursor(resume, key),
+    scanned: offset - start,
+    cached,
+  };
+}
@@ -0,0 +1,184 @@
+/**
+ * VibeClaw Local Security Scanner
+ * Static checks on downloaded skill content, run before anything is written to disk.
+ * Complements the Vibe Index scan data, which may be missing ("Scan pending") or stale.
+ */
+
+export type Severity = "low" | "medium" | "high" | "critical";
+
+export const SEVERITIES: readonly Severity[] = ["low", "medium", "high", "critical"];
+
+/** Installs are blocked when a finding is at or above this severity unless configured otherwise. */
+export const DEFAULT_BLOCK_SEVERITY: Severity = "high";
+
+export interface ScanFinding {
+  rule: string;
+  severity: Severity;
+  file: string;
+  line: number;
+  message: string;
+  excerpt: string;
+}
+
+export interface ScanReport {
+  findings: ScanFinding[];
+  maxSeverity: Severity | null;
+}
+
+interface ScanRule {
+  id: string;
+  severity: Severity;
+  message: string;
+  pattern: RegExp;
+}
+
+const RULES: ScanRule[] = [
+  {
+    id: "pipe-to-shell",
+    severity: "critical",
+    message: "Downloads a remote script and pipes it straight into a shell",
+    pattern: /\b(curl|wget)\b[^|\n]*\|\s*(sudo\s+)?(ba|z|k|da)?sh\b/i,
+  },
+  {
+    id: "powershell-remote-exec",
+    severity: "critical",
+    message: "Downloads and executes remote PowerShell code",
+    pattern: /\b(iex|invoke-expression)\b[^\n]*\b(iwr|irm|invoke-webrequest|invoke-restmethod|downloadstring)\b/i,
+  },
+  {
+    id: "encoded-exec",
+    severity: "critical",
+    message: "Decodes an encoded payload and executes it",
+    pattern: /base64\s+(-d|--decode)\b[^\n]*\|\s*(ba|z)?sh\b|\beval\s*\(\s*(atob|Buffer\.from)\s*\(/i,
+  },
+  {
+    id: "reverse-shell",
+    severity: "critical",
+    message: "Opens a reverse shell",
+    pattern: /\b(nc|ncat|netcat)\b[^\n]*\s-e\s|\/dev\/tcp\/[\w.-]+\/\d+/i,
+  },
+  {
+    id: "credential-exfiltration",
+    severity: "critical",
+    message: "Sends secrets or environment variables to a remote host",
+    pattern: /\b(curl|wget|nc|fetch|invoke-webrequest)\b[^\n]*(\$\{?[A-Z_]*(TOKEN|SECRET|PASSWORD|API_KEY|PRIVATE_KEY)\b|\$\(\s*(env|printenv)\s*\)|\/etc\/(passwd|shadow))/i,
+  },
+  {
+    id: "ssh-key-access",
+    severity: "high",
+    message: "Reads SSH keys or SSH configuration",
+    pattern: /(~|\$HOME|\$\{HOME\})\/\.ssh\b|\bid_(rsa|dsa|ecdsa|ed25519)\b|\bauthorized_keys\b/,
+  },
+  {
+    id: "credential-file-access",
+    severity: "high",
+    message: "Reads a credential store",
+    pattern: /\.aws\/credentials|\.git-credentials|\.netrc\b|\.docker\/config\.json|\.kube\/config|\.pypirc|\.config\/gh\/hosts\.yml/,
+  },
+  {
+    id: "destructive-command",
+    severity: "high",
+    message: "Recursively deletes the root or home directory",
+    pattern: /\brm\s+-[a-z]*r[a-z]*f?[a-z]*\s+(\/|~|\$HOME|\$\{HOME\})(\s|\/?\*?\s*$|$)/i,
+  },
+  {
+    id: "prompt-injection",
+    severity: "high",
+    message: "Tries to override the agent's instructions",
+    pattern: /\b(ignore|disregard|forget)\s+(all\s+|any\s+)?(the\s+|your\s+)?(previous|prior|above|earlier|system)\s+(instructions|prompts?|rules|messages)\b|\byou are now (in )?(developer mode|DAN|jailbroken)\b/i,
+  },
+  {
+    id: "conceal-from-user",
+    severity: "high",
+    message: "Instructs the agent to hide its actions from the user",
+    pattern: /\b(do not|don't|never)\s+(tell|inform|mention|reveal|show)\s+(this\s+|it\s+)?(to\s+)?the\s+user\b|\bwithout\s+(telling|informing|asking)\s+the\s+user\b/i,
+  },
+  {
+    id: "disable-safety",
+    severity: "medium",
+    message: "Asks the agent to skip confirmations or approvals",
+    pattern: /--dangerously-skip-permissions|\bskip\s+(all\s+)?(confirmation|approval)s?\b|\bauto[- ]?approve\b/i,
+  },
+  {
+    id: "hidden-unicode",
+    severity: "high",
+    message: "Contains invisible or bidirectional-override unicode characters",
+    // Zero-width chars, bidi embeddings/overrides/isolates and Unicode tag characters
+    pattern: /[\u200B-\u200D\u2060\u202A-\u202E\u2066-\u2069]|\uDB40[\uDC00-\uDC7F]|(?!^)\uFEFF/,
+  },
+];
+
+function severityRank(severity: Severity): number {
+  return SEVERITIES.indexOf(severity);
+}
+
+export function isSeverityAtLeast(severity: Severity, threshold: Severity): boolean {
+  return severityRank(severity) >= severityRank(threshold);
+}
+
+function isBinary(content: Buffer): boolean {
+  return content.subarray(0, 8000).includes(0);
+}
+
+/**
+ * Scan skill files for risky patterns.
+ * Text files are checked line by line; bundled binaries are reported since they can't be reviewed.
+ */
+export function scanSkillFiles(files: Array<{ path: string; content: Buffer | string }>): ScanReport {
+  const findings: ScanFinding[] = [];
+
+  for (const file of files) {
+    const content = typeof file.content === "string" ? Buffer.from(file.content, "utf-8") : file.content;
+    if (isBinary(content)) {
+      findings.push({
+        rule: "binary-file",
+        severity: "medium",
+        file: file.path,
+        line: 0,
+        message: "Bundles a binary file that cannot be reviewed",
+        excerpt: `${content.length} bytes`,
+      });
+      continue;
+    }
+
+    const lines = content.toString("utf-8").split("\n");
+    lines.forEach((text, idx) => {
+      for (const rule of RULES) {
+        const match = rule.pattern.exec(text);
+        if (!match) continue;
+        findings.push({
+          rule: rule.id,
+          severity: rule.severity,
+          file: file.path,
+          line: idx + 1,
+          message: rule.message,
+          excerpt: rule.id === "hidden-unicode"
+            ? `U+${match[0].codePointAt(0)!.toString(16).toUpperCase().padStart(4, "0")} at column ${match.index + 1}`
+            : text.trim().slice(0, 120),
+        });
+      }
+    });
+  }
+
+  findings.sort((a, b) => severityRank(b.severity) - severityRank(a.severity));
+  return { findings, maxSeverity: findings[0]?.severity ?? null };
+}
+
+/**
+ * Findings that should block an install at the given threshold.
+ */
+export function blockingFindings(report: ScanReport, threshold: Severity): ScanFinding[] {
+  return report.findings.filter(finding => isSeverityAtLeast(finding.severity, threshold));
+}
+
+/**
+ * Render findings as an indented list for tool output.
+ */
+export function formatFindings(findings: ScanFinding[], limit = 10): string {
+  const lines = findings.slice(0, limit).map(f => {
+    const where = f.line > 0 ? `${f.file}:${f.line}` : f.file;
+    return `  [${f.severity.toUpperCase()}] ${where} ${f.rule}: ${f.message}\n      ${f.excerpt}`;
+  });
+  if (findings.length > limit) lines.push(`  ...and ${findings.length - limit} more`);
+  return lines.join("\n");
+}
@@ -1,18 +1,23 @@
 /**
  * VibeClaw Skill Installer
- * Downloads SKILL.md from GitHub and places it in ~/.openclaw/skills/
- * so OpenClaw automatically loads it on next session.
+ * Downloads a skill directory (SKILL.md plus bundled scripts, templates and references)
+ * from GitHub or another source and places it in ~/.openclaw/skills/ so OpenClaw automatically
+ * loads it on next session.
  */
 
 import { promises as fs } from "node:fs";
 import path from "node:path";
-import os from "node:os";
-
-const CONFIG_DIR = process.env.OPENCLAW_STATE_DIR
-  ?? process.env.CLAWDBOT_STATE_DIR
-  ?? path.join(os.homedir(), ".openclaw");
-
-const SKILLS_DIR = path.join(CONFIG_DIR, "skills");
+import { SKILLS_DIR, STAGING_DIR, BACKUP_DIR, DISABLED_DIR } from "./paths.js";
+import { readLockfile, recordLockedSkill, removeLockedSkill, sha256 } from "./lockfile.js";
+import type { LockedSkill } from "./lockfile.js";
+import { unifiedDiff } from "./diff.js";
+import { scanSkillFiles, blockingFindings, DEFAULT_BLOCK_SEVERITY } from "./security-scanner.js";
+import type { ScanReport, Severity } from "./security-scanner.js";
+import { sourceFetch, openSnapshot, formatSkillSource, parseSkillSource, sourcePublisher, listDirectoryFiles } from "./skill-sources.js";
+import type { SkillSource, SourceKind, SourceSnapshot } from "./skill-sources.js";
+import { readFrontmatter, parseSkillManifest, checkRequirements } from "./skill-manifest.js";
+import type { SkillManifest } from "./skill-manifest.js";
+import type { PlanBlock } from "./install-plan.js";
 
 /**
  * Validate and sanitize a skill name to prevent path traversal.
@@ -31,73 +36,500 @@ function sanitizeSkillName(name: string): string | null {
   return sanitized;
 }
 
+/** Limits applied when downloading a skill directory. */
+const MAX_SKILL_FILES = 100;
+const MAX_SKILL_FILE_BYTES = 1024 * 1024;
+const MAX_SKILL_TOTAL_BYTES = 5 * 1024 * 1024;
+
+/** Most SKILL.md files read when looking for a skill in a multi-skill repo. */
+const MAX_SKILL_CANDIDATES = 50;
+
+interface SkillFile {
+  /** Path relative to the skill directory, always "/"-separated. */
+  path: string;
+  content: Buffer;
+}
+
 /**
- * Possible paths where SKILL.md might live in a GitHub repo.
- * We try each in order until one succeeds.
+ * The `name:` from a SKILL.md's YAML frontmatter, or null if it has none.
  */
-function getSkillMdUrls(owner: string, repo: string, skillName: string): string[] {
-  const base = `https://raw.githubusercontent.com/${owner}/${repo}`;
-  return [
-    // Most common: skills/<name>/SKILL.md
-    `${base}/main/skills/${skillName}/SKILL.md`,
-    `${base}/master/skills/${skillName}/SKILL.md`,
-    // Repo root SKILL.md (single-skill repos)
-    `${base}/main/SKILL.md`,
-    `${base}/master/SKILL.md`,
-    // Some repos use src/skills/
-    `${base}/main/src/skills/${skillName}/SKILL.md`,
-    `${base}/master/src/skills/${skillName}/SKILL.md`,
-  ];
+function skillMdName(content: string): string | null {
+  return frontmatterString(content, "name") ?? null;
+}
+
+function frontmatterString(content: string, field: string): string | undefined {
+  const value = readFrontmatter(content)?.[field];
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function normalizeSkillName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+}
+
+function rawUrl(owner: string, repo: string, ref: string, filePath: string): string {
+  return `https://raw.githubusercontent.com/${owner}/${repo}/${ref}/${filePath}`;
+}
+
+function joinRepoPath(dir: string, file: string): string {
+  return dir ? `${dir}/${file}` : file;
+}
+
+/**
+ * Look up a repo's default branch, which isn't always main or master.
+ */
+async function resolveDefaultBranch(owner: string, repo: string): Promise<{ ref: string } | { error: string }> {
+  try {
+    const response = await sourceFetch(`https://api.github.com/repos/${owner}/${repo}`, "application/vnd.github+json");
+    if (!response.ok) {
+      return { error: `Could not look up ${owner}/${repo}: GitHub API ${response.status} ${response.statusText}` };
+    }
+    const data = await response.json() as { default_branch?: string };
+    return data.default_branch ? { ref: data.default_branch } : { error: `GitHub reports no default branch for ${owner}/${repo}.` };
+  } catch (err) {
+    return { error: `Could not look up ${owner}/${repo}: ${(err as Error).message}` };
+  }
 }
 
 /**
- * Download SKILL.md content from GitHub
+ * Resolve a branch or tag to the commit SHA it currently points at.
  */
-async function downloadSkillMd(
+async function resolveCommit(owner: string, repo: string, ref: string): Promise<{ commit: string } | { error: string }> {
+  const url = `https://api.github.com/repos/${owner}/${repo}/commits/${encodeURIComponent(ref)}`;
+  try {
+    const response = await sourceFetch(url, "application/vnd.github.sha");
+    if (!response.ok) {
+      return { error: `Could not resolve ${owner}/${repo}@${ref}: GitHub API ${response.status} ${response.statusText}` };
+    }
+    const commit = (await response.text()).trim();
+    if (!/^[0-9a-f]{40}$/.test(commit)) {
+      return { error: `Could not resolve ${owner}/${repo}@${ref}: unexpected response from GitHub.` };
+    }
+    return { commit };
+  } catch (err) {
+    return { error: `Could not resolve ${owner}/${repo}@${ref}: ${(err as Error).message}` };
+  }
+}
+
+/**
+ * Check that a repo-relative file path is safe to reproduce inside a skill directory.
+ * Hidden files/directories (.git, .github, .vibeclaw.json, ...) are skipped.
+ */
+function isInstallablePath(relPath: string): boolean {
+  if (!relPath || relPath.startsWith("/") || relPath.includes("\\")) return false;
+  return relPath.split("/").every(segment => segment !== "" && !segment.startsWith("."));
+}
+
+/**
+ * List every file in a GitHub repo at a specific commit with the tree API.
+ */
+async function listGitHubTree(
   owner: string,
   repo: string,
+  commit: string,
+): Promise<{ files: Array<{ path: string; size: number }> } | { error: string }> {
+  const treeUrl = `https://api.github.com/repos/${owner}/${repo}/git/trees/${commit}?recursive=1`;
+  let tree: { tree: Array<{ path: string; mode: string; type: string; size?: number }>; truncated?: boolean };
+  try {
+    const response = await sourceFetch(treeUrl, "application/vnd.github+json");
+    if (!response.ok) {
+      return { error: `Could not list files in ${owner}/${repo}: GitHub API ${response.status} ${response.statusText}` };
+    }
+    tree = await response.json() as typeof tree;
+  } catch (err) {
+    return { error: `Could not list files in ${owner}/${repo}: ${(err as Error).message}` };
+  }
+  if (tree.truncated) {
+    return { error: `${owner}/${repo} is too large to list. Cannot determine the skill's files.` };
+  }
+  // Symlinks (mode 120000) are blobs too, but can't be reproduced safely
+  return {
+    files: tree.tree
+      .filter(entry => entry.type === "blob" && entry.mode !== "120000")
+      .map(entry => ({ path: entry.path, size: entry.size ?? 0 })),
+  };
+}
+
+/**
+ * Pick the files under `dir` from a source listing, enforce the skill limits and read them.
+ * `read` takes the path relative to the source root.
+ */
+async function readSkillFiles(
+  listing: Array<{ path: string; size: number }>,
+  dir: string,
+  where: string,
+  read: (filePath: string) => Promise<Buffer>,
+): Promise<{ files: SkillFile[] } | { error: string }> {
+  const prefix = dir ? `${dir}/` : "";
+  const entries = listing
+    .filter(entry => entry.path.startsWith(prefix))
+    .map(entry => ({ path: entry.path.slice(prefix.length), size: entry.size }))
+    .filter(entry => isInstallablePath(entry.path));
+
+  if (!entries.some(entry => entry.path === "SKILL.md")) {
+    return { error: `No SKILL.md in ${where}.` };
+  }
+  if (entries.length > MAX_SKILL_FILES) {
+    return { error: `Skill has ${entries.length} files (limit ${MAX_SKILL_FILES}).` };
+  }
+  const oversized = entries.find(entry => entry.size > MAX_SKILL_FILE_BYTES);
+  if (oversized) {
+    return { error: `File "${oversized.path}" is ${oversized.size} bytes (limit ${MAX_SKILL_FILE_BYTES}).` };
+  }
+
+  const files: SkillFile[] = [];
+  let totalBytes = 0;
+
+  for (const entry of entries) {
+    let content: Buffer;
+    try {
+      content = await read(joinRepoPath(dir, entry.path));
+    } catch (err) {
+      return { error: `Failed to download "${entry.path}": ${(err as Error).message}` };
+    }
+    if (content.length > MAX_SKILL_FILE_BYTES) {
+      return { error: `File "${entry.path}" is ${content.length} bytes (limit ${MAX_SKILL_FILE_BYTES}).` };
+    }
+    totalBytes += content.length;
+    if (totalBytes > MAX_SKILL_TOTAL_BYTES) {
+      return { error: `Skill exceeds the ${MAX_SKILL_TOTAL_BYTES} byte size limit.` };
+    }
+    files.push({ path: entry.path, content });
+  }
+
+  return { files };
+}
+
+/**
+ * Content hash standing in for a commit on sources that have none (tarballs, local directories).
+ */
+function contentDigest(files: SkillFile[]): string {
+  return sha256([...files]
+    .sort((a, b) => a.path.localeCompare(b.path))
+    .map(file => `${file.path}\0${sha256(file.content)}\n`)
+    .join(""));
+}
+
+/**
+ * Find the skill directory in a source listing by matching every SKILL.md's frontmatter name
+ * against the requested skill. Directories named after the skill are read first; a source
+ * with a single SKILL.md is accepted whatever its name. Lists what was seen when nothing matches.
+ */
+async function findSkillDir(
+  listing: Array<{ path: string }>,
   skillName: string,
-): Promise<{ content: string; url: string } | null> {
-  const urls = getSkillMdUrls(owner, repo, skillName);
+  where: string,
+  read: (filePath: string) => Promise<Buffer>,
+): Promise<{ dir: string } | { error: string }> {
+  const wanted = normalizeSkillName(skillName);
+  const dirOf = (filePath: string) => filePath.slice(0, -"SKILL.md".length).replace(/\/$/, "");
+  const baseName = (dir: string) => normalizeSkillName(dir.split("/").pop() ?? "");
+  const candidates = listing
+    .map(file => file.path)
+    .filter(filePath => filePath === "SKILL.md" || filePath.endsWith("/SKILL.md"))
+    .map(dirOf)
+    .sort((a, b) => Number(baseName(b) === wanted) - Number(baseName(a) === wanted)
+      || a.split("/").length - b.split("/").length
+      || a.localeCompare(b));
+  if (candidates.length === 0) return { error: `No SKILL.md files in ${where}.` };
 
-  for (const url of urls) {
+  const seen: string[] = [];
+  for (const dir of candidates.slice(0, MAX_SKILL_CANDIDATES)) {
+    let name: string | null;
     try {
-      const response = await globalThis.fetch(url, {
-        headers: { "User-Agent": "VibeClaw/0.1.0" },
-      });
-      if (response.ok) {
-        const content = await response.text();
-        // Validate it looks like a SKILL.md: must have YAML frontmatter (--- delimited) with a name field
-        if (content.startsWith("---") && content.indexOf("---", 3) > 3 && content.includes("name:")) {
-          return { content, url };
-        }
-      }
-    } catch {
-      // Try next URL
+      name = skillMdName((await read(joinRepoPath(dir, "SKILL.md"))).toString("utf-8"));
+    } catch (err) {
+      seen.push(`${dir || "(root)"} (${(err as Error).message})`);
+      continue;
+    }
+    if (name && normalizeSkillName(name) === wanted) return { dir };
+    if (name && candidates.length === 1) return { dir };
+    seen.push(`${dir || "(root)"} (${name ? `name: ${name}` : "no frontmatter with name:"})`);
+  }
+  if (candidates.length > MAX_SKILL_CANDIDATES) seen.push(`...and ${candidates.length - MAX_SKILL_CANDIDATES} more`);
+  return { error: `No SKILL.md named "${skillName}" in ${where}. Found: ${seen.join(", ")}.` };
+}
+
+type SkillPin = { ref: string; commit: string; path: string };
+
+/**
+ * Fetch a skill's files from any source. Fields missing from `target` are resolved:
+ * the directory is located, and the ref is pinned to its current commit (or content hash).
+ */
+async function fetchSkill(
+  source: SkillSource,
+  skillName: string,
+  target: { ref?: string; commit?: string; path?: string },
+): Promise<{ files: SkillFile[]; pin: SkillPin; sourceUrl: string } | { error: string }> {
+  if (source.kind === "github") {
+    const { owner, repo } = source;
+    let ref = target.ref ?? source.ref;
+    if (!ref) {
+      const branch = await resolveDefaultBranch(owner, repo);
+      if ("error" in branch) return branch;
+      ref = branch.ref;
+    }
+    let commit = target.commit;
+    if (!commit) {
+      const resolved = await resolveCommit(owner, repo, ref);
+      if ("error" in resolved) return { error: resolved.error };
+      commit = resolved.commit;
+    }
+    const tree = await listGitHubTree(owner, repo, commit);
+    if ("error" in tree) return tree;
+    const at = commit;
+    const download = async (filePath: string) => {
+      const response = await sourceFetch(rawUrl(owner, repo, at, filePath));
+      if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+      return Buffer.from(await response.arrayBuffer());
+    };
+    const where = `${owner}/${repo}@${ref}`;
+    let dir = target.path;
+    if (dir === undefined) {
+      const found = await findSkillDir(tree.files, skillName, where, download);
+      if ("error" in found) return found;
+      dir = found.dir;
+    }
+    const read = await readSkillFiles(tree.files, dir, `${where}/${dir} at ${commit.slice(0, 7)}`, download);
+    if ("error" in read) return read;
+    return { files: read.files, pin: { ref, commit, path: dir }, sourceUrl: rawUrl(owner, repo, commit, joinRepoPath(dir, "SKILL.md")) };
+  }
+
+  let snapshot: SourceSnapshot;
+  try {
+    snapshot = await openSnapshot(source, { ref: target.ref, commit: source.kind === "git" ? target.commit : undefined });
+  } catch (err) {
+    return { error: (err as Error).message };
+  }
+  try {
+    const label = formatSkillSource(source);
+    let dir = target.path;
+    if (dir === undefined) {
+      const found = await findSkillDir(snapshot.files, skillName, label, filePath => snapshot.read(filePath));
+      if ("error" in found) return found;
+      dir = found.dir;
+    }
+    const read = await readSkillFiles(snapshot.files, dir, `${label}/${dir}`, filePath => snapshot.read(filePath));
+    if ("error" in read) return read;
+    const commit = snapshot.commit ?? contentDigest(read.files);
+    if (target.commit && commit !== target.commit) {
+      return { error: `${label} changed: content hash is ${commit.slice(0, 12)}, expected ${target.commit.slice(0, 12)}.` };
+    }
+    return { files: read.files, pin: { ref: snapshot.ref, commit, path: dir }, sourceUrl: label };
+  } finally {
+    await snapshot.dispose();
+  }
+}
+
+/**
+ * Resolve a skill-relative path, refusing anything that escapes the skill directory.
+ */
+function resolveInsideSkillDir(skillDir: string, relPath: string): string | null {
+  const resolved = path.resolve(skillDir, relPath);
+  return resolved.startsWith(skillDir + path.sep) ? resolved : null;
+}
+
+/**
+ * Remove the files recorded in a skill's metadata, then prune directories left empty.
+ * Files the user added themselves are left alone.
+ */
+async function removeRecordedFiles(skillDir: string, files: SkillFileRecord[]): Promise<void> {
+  const dirs = new Set<string>();
+  for (const file of files) {
+    const target = resolveInsideSkillDir(skillDir, file.path);
+    if (!target) continue;
+    await fs.rm(target, { force: true });
+    for (let dir = path.dirname(target); dir.startsWith(skillDir + path.sep); dir = path.dirname(dir)) {
+      dirs.add(dir);
     }
   }
+  // Deepest directories first so parents become empty before we reach them
+  for (const dir of [...dirs].sort((a, b) => b.length - a.length)) {
+    await fs.rmdir(dir).catch(() => {});
+  }
+}
 
+/**
+ * Compare downloaded files against the hashes recorded in the lockfile.
+ * Returns a description of the first mismatch, or null if every byte matches.
+ */
+function verifyHashes(files: SkillFile[], expected: Record<string, string>): string | null {
+  const actual = new Map(files.map(file => [file.path, sha256(file.content)]));
+  for (const [filePath, hash] of Object.entries(expected)) {
+    const got = actual.get(filePath);
+    if (!got) return `"${filePath}" is missing upstream`;
+    if (got !== hash) return `"${filePath}" has SHA-256 ${got}, lockfile expects ${hash}`;
+  }
+  const extra = files.find(file => !(file.path in expected));
+  if (extra) return `"${extra.path}" is not in the lockfile`;
   return null;
 }
 
+export interface SkillFileRecord {
+  path: string;
+  size: number;
+  sha256?: string;
+}
+
+export interface SkillMeta {
+  installedBy: string;
+  installedAt: string;
+  /** Canonical source spec, e.g. "github:owner/repo" or "git+https://host/group/repo.git". */
+  source: string;
+  sourceKind?: SourceKind;
+  sourceUrl: string;
+  skillName: string;
+  /** Identity of the installed resource, so audits look up exactly this skill. */
+  resourceId?: string;
+  owner?: string;
+  repo?: string;
+  slug?: string;
+  /** Branch the skill was resolved from and the commit it was pinned to. */
+  ref?: string;
+  commit?: string;
+  /** Directory of the skill inside the source ("" for the root). */
+  path?: string;
+  /** Every file VibeClaw wrote for this skill, relative to the skill directory. */
+  files?: SkillFileRecord[];
+  /** Excluded from updates. */
+  pinned?: boolean;
+  /** Installed by hand or another tool, then taken over with adoptSkill. */
+  adopted?: boolean;
+  lastAudit?: SkillAuditRecord;
+}
+
+export interface SkillAuditRecord {
+  at: string;
+  status: "safe" | "flagged" | "changed";
+  /** The audit line for this skill, e.g. the security badge or the problems found. */
+  summary: string;
+}
+
 export interface InstallResult {
   success: boolean;
   skillName: string;
   installPath?: string;
   sourceUrl?: string;
+  commit?: string;
+  files?: SkillFileRecord[];
+  /** Local static scan of the downloaded content (set whenever files were downloaded). */
+  scan?: ScanReport;
+  /** Validated SKILL.md frontmatter. */
+  manifest?: SkillManifest;
+  /** Non-fatal problems: unmet requirements on this machine, questionable frontmatter. */
+  warnings?: string[];
   error?: string;
   alreadyInstalled?: boolean;
+  /** A previous version was moved to the backup and can be restored with rollbackSkill. */
+  replaced?: boolean;
+}
+
+async function isManagedSkillDir(skillDir: string): Promise<boolean> {
+  return fs.access(path.join(skillDir, ".vibeclaw.json")).then(() => true, () => false);
+}
+
+async function readSkillMeta(skillDir: string): Promise<SkillMeta | null> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(skillDir, ".vibeclaw.json"), "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+async function writeSkillMeta(skillDir: string, meta: SkillMeta): Promise<void> {
+  await fs.writeFile(path.join(skillDir, ".vibeclaw.json"), JSON.stringify(meta, null, 2), "utf-8");
 }
 
 /**
- * Install a skill by downloading SKILL.md from GitHub to ~/.openclaw/skills/<name>/
+ * Where a VibeClaw-installed skill lives: the skills directory, or the disabled directory.
  */
-export async function installSkillFromGitHub(
-  owner: string,
-  repo: string,
+async function managedSkillDir(safeName: string): Promise<{ dir: string; disabled: boolean } | null> {
+  for (const [root, disabled] of [[SKILLS_DIR, false], [DISABLED_DIR, true]] as const) {
+    const dir = path.join(root, safeName);
+    if (await isManagedSkillDir(dir)) return { dir, disabled };
+  }
+  return null;
+}
+
+/**
+ * Find a skill in the skills directory that OpenClaw would load under the given name
+ * (its frontmatter name, or its directory name without one).
+ */
+async function findSkillByName(name: string, unmanagedOnly: boolean): Promise<string | null> {
+  const wanted = normalizeSkillName(name);
+  let entries;
+  try {
+    entries = await fs.readdir(SKILLS_DIR, { withFileTypes: true });
+  } catch {
+    return null;
+  }
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+    const dir = path.join(SKILLS_DIR, entry.name);
+    if (unmanagedOnly && await isManagedSkillDir(dir)) continue;
+    const content = await fs.readFile(path.join(dir, "SKILL.md"), "utf-8").catch(() => null);
+    if (content === null) continue;
+    if (normalizeSkillName(skillMdName(content) ?? entry.name) === wanted) return dir;
+    if (!unmanagedOnly && normalizeSkillName(entry.name) === wanted) return dir;
+  }
+  return null;
+}
+
+/**
+ * Directory of an installed skill (managed by VibeClaw or not) with this name, if any.
+ */
+export async function findInstalledSkill(name: string): Promise<string | null> {
+  return findSkillByName(name, false);
+}
+
+export interface SkillInstallOptions {
+  force?: boolean;
+  /** Install exactly this commit/directory instead of resolving the current branch head. */
+  pin?: SkillPin;
+  /** Directory of the skill inside the source, when it isn't in one of the usual places. */
+  path?: string;
+  /** Refuse the install unless every file matches these SHA-256 hashes. */
+  expectedHashes?: Record<string, string>;
+  /** Block the install when the local scanner finds an issue at or above this severity. */
+  scanThreshold?: Severity;
+  /** Vibe Index id of the resource being installed. */
+  resourceId?: string;
+}
+
+/** A skill that has been downloaded, validated and scanned, but not yet written to disk. */
+export interface PreparedSkill {
+  source: SkillSource;
+  skillName: string;
+  skillDir: string;
+  pin: SkillPin;
+  sourceUrl: string;
+  files: SkillFile[];
+  manifest: SkillManifest;
+  warnings: string[];
+  scan: ScanReport;
+  resourceId?: string;
+}
+
+/**
+ * Install a skill by downloading its directory from a source to ~/.openclaw/skills/<name>/
+ */
+export async function installSkillFromSource(
+  source: SkillSource,
   skillName: string,
-  opts?: { force?: boolean },
+  opts?: SkillInstallOptions,
 ): Promise<InstallResult> {
+  const result = await prepareSkillInstall(source, skillName, opts);
+  return "prepared" in result ? commitSkillInstall(result.prepared) : result;
+}
+
+/**
+ * Download, validate and scan a skill without touching the skills directory.
+ * Returns an InstallResult instead when the skill is already installed or can't be installed.
+ */
+export async function prepareSkillInstall(
+  source: SkillSource,
+  skillName: string,
+  opts?: SkillInstallOptions,
+): Promise<{ prepared: PreparedSkill } | InstallResult> {
   const safeName = sanitizeSkillName(skillName);
   if (!safeName) {
     return {
@@ -110,9 +542,20 @@ export async function installSkillFromGitHub(
   const skillDir = path.join(SKILLS_DIR, safeName);
   const skillFile = path.join(skillDir, "SKILL.md");
 
+  if ((await managedSkillDir(safeName))?.disabled) {
+    return { success: false, skillName, error: `"${safeName}" is disabled. Enable or uninstall it first.` };
+  }
+
   // Check if already installed
   try {
     await fs.access(skillFile);
+    if (!await isManagedSkillDir(skillDir)) {
+      return {
+        success: false,
+        skillName,
+        error: `${skillDir} holds a skill that was not installed by VibeClaw. Refusing to overwrite it.`,
+      };
+    }
     if (!opts?.force) {
       return {
         success: true,
@@ -125,41 +568,268 @@ export async function installSkillFromGitHub(
     // Not installed yet — proceed
   }
 
-  // Download SKILL.md
-  const result = await downloadSkillMd(owner, repo, skillName);
-  if (!result) {
+  // Locate SKILL.md, pin the branch head to a commit (unless the caller already pinned one) and download
+  const download = await fetchSkill(source, skillName, opts?.pin ?? { path: opts?.path });
+  if ("error" in download) {
+    return { success: false, skillName, error: download.error };
+  }
+  const { pin, sourceUrl } = download;
+  if (opts?.expectedHashes) {
+    const mismatch = verifyHashes(download.files, opts.expectedHashes);
+    if (mismatch) {
+      return { success: false, skillName, error: `Hash mismatch for ${formatSkillSource(source)}@${pin.commit.slice(0, 7)}: ${mismatch}. Refusing to install.` };
+    }
+  }
+
+  // Validate the frontmatter OpenClaw will load the skill from
+  const parsed = parseSkillManifest(download.files.find(file => file.path === "SKILL.md")!.content.toString("utf-8"));
+  if ("errors" in parsed) {
+    return { success: false, skillName, error: `Invalid SKILL.md frontmatter: ${parsed.errors.join("; ")}.` };
+  }
+  const { manifest } = parsed;
+  const clash = await findSkillByName(manifest.name, true);
+  if (clash) {
+    return {
+      success: false,
+      skillName,
+      error: `A skill named "${manifest.name}" is already installed at ${clash} and is not managed by VibeClaw. Refusing to install a second one.`,
+    };
+  }
+  const warnings = [...parsed.warnings, ...await checkRequirements(manifest)];
+
+  // Local static scan, before anything touches the disk
+  const scan = scanSkillFiles(download.files);
+  const blocking = blockingFindings(scan, opts?.scanThreshold ?? DEFAULT_BLOCK_SEVERITY);
+  if (blocking.length > 0) {
     return {
       success: false,
       skillName,
-      error: `Could not find SKILL.md for "${skillName}" in ${owner}/${repo}. Tried multiple paths.`,
+      scan,
+      error: `Local security scan found ${blocking.length} issue(s) at or above ${opts?.scanThreshold ?? DEFAULT_BLOCK_SEVERITY} severity.`,
     };
   }
 
-  // Ensure directory exists
-  await fs.mkdir(skillDir, { recursive: true });
+  return {
+    prepared: {
+      source,
+      skillName,
+      skillDir,
+      pin,
+      sourceUrl,
+      files: download.files,
+      manifest,
+      warnings,
+      scan,
+      resourceId: opts?.resourceId,
+    },
+  };
+}
+
+/**
+ * Write a prepared skill to the skills directory and record it in .vibeclaw.json and the lockfile.
+ */
+export async function commitSkillInstall(prepared: PreparedSkill): Promise<InstallResult> {
+  const { source, skillName, skillDir, pin, sourceUrl, manifest, warnings, scan, resourceId } = prepared;
+  const safeName = path.basename(skillDir);
+  const lockError = await lockfileError();
+  if (lockError) return { success: false, skillName, error: lockError };
 
-  // Write SKILL.md
-  await fs.writeFile(skillFile, result.content, "utf-8");
+  // Assemble the new version next to the skills directory; nothing under SKILLS_DIR changes until the swap
+  await clearStaging(safeName);
+  await fs.mkdir(STAGING_DIR, { recursive: true });
+  const stageDir = await fs.mkdtemp(path.join(STAGING_DIR, `${safeName}-`));
 
-  // Write metadata for tracking
-  const meta = {
-    installedBy: "vibeclaw",
-    installedAt: new Date().toISOString(),
-    source: `github:${owner}/${repo}`,
-    sourceUrl: result.url,
+  let meta: SkillMeta;
+  let replaced: boolean;
+  try {
+    // Write every file of the skill
+    const files: SkillFileRecord[] = [];
+    for (const file of prepared.files) {
+      const target = resolveInsideSkillDir(stageDir, file.path);
+      if (!target) continue;
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, file.content);
+      files.push({ path: file.path, size: file.content.length, sha256: sha256(file.content) });
+    }
+
+    // Files the user added to the previous version come along; the previous version's own files don't
+    const previous = await readSkillMeta(skillDir);
+    if (previous?.files) {
+      await copyUserFiles(skillDir, stageDir, previous.files);
+    }
+
+    // Write metadata for tracking
+    meta = {
+      installedBy: "vibeclaw",
+      installedAt: new Date().toISOString(),
+      source: formatSkillSource(source),
+      sourceKind: source.kind,
+      sourceUrl,
+      skillName,
+      resourceId,
+      owner: source.kind === "github" ? source.owner : undefined,
+      repo: source.kind === "github" ? source.repo : undefined,
+      slug: skillName,
+      ref: pin.ref,
+      commit: pin.commit,
+      path: pin.path,
+      files,
+      pinned: previous?.pinned,
+    };
+    await writeSkillMeta(stageDir, meta);
+
+    replaced = await swapIntoPlace(stageDir, skillDir, safeName);
+  } catch (err) {
+    await fs.rm(stageDir, { recursive: true, force: true });
+    return { success: false, skillName, error: `Could not write ${skillDir}: ${(err as Error).message}` };
+  }
+  const { files } = meta;
+
+  await recordLockedSkill(safeName, lockEntry(meta));
+
+  return {
+    success: true,
     skillName,
+    installPath: skillDir,
+    sourceUrl,
+    commit: pin.commit,
+    files,
+    scan,
+    manifest,
+    warnings,
+    replaced,
   };
-  await fs.writeFile(
-    path.join(skillDir, ".vibeclaw.json"),
-    JSON.stringify(meta, null, 2),
-    "utf-8",
-  );
+}
 
+function lockEntry(meta: SkillMeta): LockedSkill {
+  return {
+    source: meta.source,
+    resourceId: meta.resourceId,
+    ref: meta.ref ?? "",
+    commit: meta.commit ?? "",
+    path: meta.path ?? "",
+    files: Object.fromEntries((meta.files ?? []).map(file => [file.path, file.sha256!])),
+    installedAt: meta.installedAt,
+  };
+}
+
+/**
+ * Remove staging directories left behind by an install that was interrupted.
+ */
+async function clearStaging(safeName: string): Promise<void> {
+  const entries = await fs.readdir(STAGING_DIR).catch(() => [] as string[]);
+  for (const entry of entries) {
+    if (entry.startsWith(`${safeName}-`)) await fs.rm(path.join(STAGING_DIR, entry), { recursive: true, force: true });
+  }
+}
+
+/**
+ * Copy files in a skill directory that weren't part of its install (notes, local config) into a new version.
+ */
+async function copyUserFiles(fromDir: string, toDir: string, installed: SkillFileRecord[]): Promise<void> {
+  const skip = new Set([...installed.map(file => file.path), ".vibeclaw.json"]);
+  await fs.cp(fromDir, toDir, {
+    recursive: true,
+    force: false,
+    filter: src => !skip.has(path.relative(fromDir, src).split(path.sep).join("/")),
+  });
+}
+
+/**
+ * Move a fully written skill directory into place with renames. The version it replaces
+ * becomes the skill's backup; if the final rename fails, that version is put back.
+ * Returns whether there was a previous version.
+ */
+async function swapIntoPlace(readyDir: string, skillDir: string, safeName: string): Promise<boolean> {
+  const backupDir = path.join(BACKUP_DIR, safeName);
+  const exists = await fs.access(skillDir).then(() => true, () => false);
+  await fs.mkdir(SKILLS_DIR, { recursive: true });
+
+  if (!exists) {
+    await fs.rename(readyDir, skillDir);
+    return false;
+  }
+
+  // The backup slot may already hold an older version; park it until the swap succeeds
+  await fs.mkdir(BACKUP_DIR, { recursive: true });
+  const olderBackup = await fs.access(backupDir).then(() => `${readyDir}.old`, () => null);
+  if (olderBackup) await fs.rename(backupDir, olderBackup);
+  await fs.rename(skillDir, backupDir);
+  try {
+    await fs.rename(readyDir, skillDir);
+  } catch (err) {
+    await fs.rename(backupDir, skillDir);
+    if (olderBackup) await fs.rename(olderBackup, backupDir);
+    throw err;
+  }
+  if (olderBackup) await fs.rm(olderBackup, { recursive: true, force: true });
+  return true;
+}
+
+/**
+ * Why vibeclaw.lock.json can't be updated, or null when it can. Checked before a skill is
+ * touched, so an unreadable lockfile stops the change instead of leaving it unrecorded.
+ */
+async function lockfileError(): Promise<string | null> {
+  return readLockfile().then(() => null, (err: Error) => err.message);
+}
+
+/**
+ * Metadata of the version kept as a skill's backup, or null when there is none.
+ */
+export async function getSkillBackupMeta(skillName: string): Promise<SkillMeta | null> {
+  const safeName = sanitizeSkillName(skillName);
+  if (!safeName) return null;
+  try {
+    return JSON.parse(await fs.readFile(path.join(BACKUP_DIR, safeName, ".vibeclaw.json"), "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Restore the previously installed version of a skill. The version it replaces becomes the
+ * new backup, so a rollback can itself be rolled back.
+ */
+export async function rollbackSkill(skillName: string): Promise<InstallResult> {
+  const safeName = sanitizeSkillName(skillName);
+  if (!safeName) return { success: false, skillName, error: `Invalid skill name "${skillName}".` };
+  const skillDir = path.join(SKILLS_DIR, safeName);
+  const backup = await getSkillBackupMeta(safeName);
+  if (!backup) return { success: false, skillName, error: `No previous version of "${skillName}" to roll back to.` };
+  if ((await managedSkillDir(safeName))?.disabled) {
+    return { success: false, skillName, error: `"${safeName}" is disabled. Enable it before rolling back.` };
+  }
+  if (await fs.access(skillDir).then(() => true, () => false) && !await isManagedSkillDir(skillDir)) {
+    return { success: false, skillName, error: `${skillDir} holds a skill that was not installed by VibeClaw. Refusing to replace it.` };
+  }
+  const lockError = await lockfileError();
+  if (lockError) return { success: false, skillName, error: lockError };
+
+  await clearStaging(safeName);
+  await fs.mkdir(STAGING_DIR, { recursive: true });
+  const restoreDir = path.join(await fs.mkdtemp(path.join(STAGING_DIR, `${safeName}-`)), safeName);
+  try {
+    await fs.rename(path.join(BACKUP_DIR, safeName), restoreDir);
+    await swapIntoPlace(restoreDir, skillDir, safeName);
+  } catch (err) {
+    // Put the backup back where it was if the swap never happened
+    await fs.rename(restoreDir, path.join(BACKUP_DIR, safeName)).catch(() => {});
+    return { success: false, skillName, error: `Could not restore ${skillDir}: ${(err as Error).message}` };
+  } finally {
+    await clearStaging(safeName);
+  }
+
+  if (backup.commit) await recordLockedSkill(safeName, lockEntry(backup));
+  else await removeLockedSkill(safeName);
   return {
     success: true,
-    skillName,
+    skillName: backup.skillName,
     installPath: skillDir,
-    sourceUrl: result.url,
+    sourceUrl: backup.sourceUrl,
+    commit: backup.commit,
+    files: backup.files,
+    replaced: true,
   };
 }
 
@@ -190,38 +860,476 @@ export async function listInstalledSkills(): Promise<string[]> {
 /**
  * Get metadata for a VibeClaw-installed skill
  */
-export async function getInstalledSkillMeta(skillName: string): Promise<{
-  installedBy: string;
-  installedAt: string;
-  source: string;
-  sourceUrl: string;
-  skillName: string;
-} | null> {
+export async function getInstalledSkillMeta(skillName: string): Promise<SkillMeta | null> {
   const safeName = sanitizeSkillName(skillName);
   if (!safeName) return null;
-  const metaPath = path.join(SKILLS_DIR, safeName, ".vibeclaw.json");
-  try {
-    const content = await fs.readFile(metaPath, "utf-8");
-    return JSON.parse(content);
-  } catch {
-    return null;
+  const location = await managedSkillDir(safeName);
+  return location ? readSkillMeta(location.dir) : null;
+}
+
+/**
+ * List VibeClaw-installed skills that are currently disabled
+ */
+export async function listDisabledSkills(): Promise<string[]> {
+  const entries = await fs.readdir(DISABLED_DIR, { withFileTypes: true }).catch(() => []);
+  const disabled: string[] = [];
+  for (const entry of entries) {
+    if (entry.isDirectory() && await isManagedSkillDir(path.join(DISABLED_DIR, entry.name))) disabled.push(entry.name);
+  }
+  return disabled;
+}
+
+/**
+ * Pin a skill to its installed commit so updates skip it, or unpin it.
+ */
+export async function setSkillPinned(skillName: string, pinned: boolean): Promise<SkillMeta | null> {
+  const safeName = sanitizeSkillName(skillName);
+  const location = safeName ? await managedSkillDir(safeName) : null;
+  const meta = location ? await readSkillMeta(location.dir) : null;
+  if (!location || !meta) return null;
+  meta.pinned = pinned || undefined;
+  await writeSkillMeta(location.dir, meta);
+  return meta;
+}
+
+/**
+ * Remember the outcome of the latest audit of a skill in its .vibeclaw.json.
+ */
+export async function recordSkillAudit(skillName: string, audit: SkillAuditRecord): Promise<void> {
+  const safeName = sanitizeSkillName(skillName);
+  const location = safeName ? await managedSkillDir(safeName) : null;
+  const meta = location ? await readSkillMeta(location.dir) : null;
+  if (!location || !meta) return;
+  meta.lastAudit = audit;
+  await writeSkillMeta(location.dir, meta);
+}
+
+/**
+ * Move a skill out of the skills directory (disable) or back into it (enable).
+ * The files, metadata and lockfile entry are kept either way.
+ */
+export async function setSkillEnabled(skillName: string, enabled: boolean): Promise<{ success: boolean; error?: string }> {
+  const safeName = sanitizeSkillName(skillName);
+  const location = safeName ? await managedSkillDir(safeName) : null;
+  if (!safeName || !location) return { success: false, error: `"${skillName}" is not a VibeClaw-installed skill.` };
+  if (location.disabled !== enabled) return { success: true };
+
+  const target = path.join(enabled ? SKILLS_DIR : DISABLED_DIR, safeName);
+  if (await fs.access(target).then(() => true, () => false)) {
+    return { success: false, error: `${target} already exists. Move it away first.` };
+  }
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  await fs.rename(location.dir, target);
+  return { success: true };
+}
+
+export interface SkillVerification {
+  skillName: string;
+  disabled: boolean;
+  /** Files whose hash was compared. */
+  checked: number;
+  modified: string[];
+  missing: string[];
+  /** Installed before hashes were recorded, so there is nothing to compare against. */
+  untracked: boolean;
+}
+
+/**
+ * Compare a skill's files on disk against the SHA-256 recorded at install time.
+ * Files the user added are not reported; only changes to installed files are.
+ */
+export async function verifyInstalledSkill(skillName: string): Promise<SkillVerification | null> {
+  const safeName = sanitizeSkillName(skillName);
+  const location = safeName ? await managedSkillDir(safeName) : null;
+  const meta = location ? await readSkillMeta(location.dir) : null;
+  if (!location || !meta) return null;
+
+  const result: SkillVerification = {
+    skillName: safeName!,
+    disabled: location.disabled,
+    checked: 0,
+    modified: [],
+    missing: [],
+    untracked: !meta.files?.every(file => file.sha256),
+  };
+  for (const file of meta.files ?? []) {
+    const target = resolveInsideSkillDir(location.dir, file.path);
+    if (!target || !file.sha256) continue;
+    result.checked++;
+    try {
+      if (sha256(await fs.readFile(target)) !== file.sha256) result.modified.push(file.path);
+    } catch {
+      result.missing.push(file.path);
+    }
   }
+  return result;
 }
 
 /**
- * Uninstall a VibeClaw-installed skill
+ * Uninstall a VibeClaw-installed skill.
+ * Only the files recorded at install time are removed; skills installed before
+ * file tracking existed are removed as a whole directory. The backup goes too, so a
+ * later rollback can't bring the skill back. Throws, before removing anything, when the
+ * lockfile can't be read.
  */
 export async function uninstallSkill(skillName: string): Promise<boolean> {
   const safeName = sanitizeSkillName(skillName);
   if (!safeName) return false;
-  const skillDir = path.join(SKILLS_DIR, safeName);
+  const location = await managedSkillDir(safeName);
+  if (!location) return false;
+  const skillDir = location.dir;
   const metaPath = path.join(skillDir, ".vibeclaw.json");
+  await readLockfile();
 
   try {
-    await fs.access(metaPath);
-    await fs.rm(skillDir, { recursive: true });
+    const meta = await readSkillMeta(skillDir);
+    if (meta?.files) {
+      await removeRecordedFiles(skillDir, meta.files);
+      await fs.rm(metaPath, { force: true });
+      await fs.rmdir(skillDir).catch(() => {});
+    } else {
+      await fs.rm(skillDir, { recursive: true });
+    }
+    await fs.rm(path.join(BACKUP_DIR, safeName), { recursive: true, force: true });
+    await removeLockedSkill(safeName);
     return true;
   } catch {
     return false;
   }
 }
+
+/** A lockfile entry that `check` refused, with the check that stopped it. */
+export interface SyncResult extends InstallResult {
+  blocked?: PlanBlock;
+}
+
+/**
+ * Reproduce every skill recorded in vibeclaw.lock.json at its pinned commit.
+ * Skills already installed at the locked commit are left alone; anything whose
+ * downloaded bytes don't match the recorded hashes is refused, and so is anything
+ * `check` blocks once it has been downloaded and scanned.
+ */
+export async function syncFromLockfile(opts?: {
+  scanThreshold?: Severity;
+  check?: (prepared: PreparedSkill) => Promise<PlanBlock | null>;
+}): Promise<SyncResult[]> {
+  const lock = await readLockfile();
+  const results: SyncResult[] = [];
+
+  for (const [name, entry] of Object.entries(lock.skills)) {
+    const source = parseSkillSource(entry.source);
+    if (!source) {
+      results.push({ success: false, skillName: name, error: `Unsupported source "${entry.source}" in lockfile.` });
+      continue;
+    }
+    const meta = await getInstalledSkillMeta(name);
+    if (meta?.commit === entry.commit) {
+      results.push({ success: true, skillName: name, installPath: path.join(SKILLS_DIR, name), commit: entry.commit, alreadyInstalled: true });
+      continue;
+    }
+    const prepared = await prepareSkillInstall(source, name, {
+      force: true,
+      pin: { ref: entry.ref, commit: entry.commit, path: entry.path },
+      expectedHashes: entry.files,
+      scanThreshold: opts?.scanThreshold,
+      resourceId: entry.resourceId,
+    });
+    if (!("prepared" in prepared)) {
+      results.push(prepared);
+      continue;
+    }
+    const blocked = await opts?.check?.(prepared.prepared) ?? null;
+    if (blocked) {
+      results.push({ success: false, skillName: name, commit: entry.commit, error: blocked.reason, blocked });
+      continue;
+    }
+    results.push(await commitSkillInstall(prepared.prepared));
+  }
+
+  return results;
+}
+
+export interface SkillUpdateCheck {
+  skillName: string;
+  source: SkillSource;
+  /** Publisher checked against the allowlist (GitHub owner or host). */
+  owner: string | null;
+  /** Pin to pass to installSkillFromSource to apply the update. */
+  pin: SkillPin;
+  currentCommit: string | null;
+  changed: boolean;
+  /** Unified diff of SKILL.md (empty when SKILL.md itself is unchanged). */
+  skillMdDiff: string;
+  added: string[];
+  removed: string[];
+  modified: string[];
+  /** License declared in the new SKILL.md's frontmatter. */
+  license?: string;
+}
+
+/**
+ * Split a raw.githubusercontent.com SKILL.md URL into its ref and skill directory.
+ */
+function parseSourceUrl(sourceUrl: string): { ref: string; path: string } | null {
+  const match = /^https:\/\/raw\.githubusercontent\.com\/[^/]+\/[^/]+\/([^/]+)\/(.*?)\/?SKILL\.md$/.exec(sourceUrl);
+  return match ? { ref: match[1], path: match[2] } : null;
+}
+
+/**
+ * Check an installed skill for upstream changes using the source recorded in .vibeclaw.json.
+ * Downloads the latest files for comparison but writes nothing.
+ */
+export async function checkSkillUpdate(skillName: string): Promise<SkillUpdateCheck | { skillName: string; error: string }> {
+  const safeName = sanitizeSkillName(skillName);
+  // Disabled skills are checked too, so read them from wherever they currently live
+  const installed = safeName ? await managedSkillDir(safeName) : null;
+  const meta = installed ? await readSkillMeta(installed.dir) : null;
+  if (!installed || !meta) return { skillName, error: "not installed via VibeClaw" };
+
+  const source = parseSkillSource(meta.source);
+  if (!source) return { skillName, error: `unsupported source "${meta.source}"` };
+  // Older GitHub installs have no recorded ref or path; their sourceUrl still points at the branch
+  const location = source.kind === "github" ? parseSourceUrl(meta.sourceUrl) : null;
+  const target: { ref?: string; commit?: string; path?: string } = {
+    ref: (meta.ref ?? location?.ref) || undefined,
+    path: meta.path ?? location?.path,
+  };
+  if (source.kind === "github" && (!target.ref || target.path === undefined)) {
+    return { skillName, error: `unsupported source URL "${meta.sourceUrl}"` };
+  }
+  const currentCommit = meta.commit ?? null;
+  const base = { skillName, source, owner: sourcePublisher(source), currentCommit };
+
+  // GitHub can tell us the head commit without downloading anything
+  if (source.kind === "github") {
+    const resolved = await resolveCommit(source.owner, source.repo, target.ref!);
+    if ("error" in resolved) return { skillName, error: resolved.error };
+    if (currentCommit === resolved.commit) {
+      return { ...base, pin: { ref: target.ref!, commit: resolved.commit, path: target.path! }, changed: false, skillMdDiff: "", added: [], removed: [], modified: [] };
+    }
+    target.commit = resolved.commit;
+  }
+
+  const download = await fetchSkill(source, skillName, target);
+  if ("error" in download) return { skillName, error: download.error };
+  const { pin } = download;
+  if (currentCommit === pin.commit) {
+    return { ...base, pin, changed: false, skillMdDiff: "", added: [], removed: [], modified: [] };
+  }
+
+  const oldSkillMd = await fs.readFile(path.join(installed.dir, "SKILL.md"), "utf-8").catch(() => "");
+  const newSkillMd = download.files.find(file => file.path === "SKILL.md")!.content.toString("utf-8");
+  const label = (commit: string | null) => `SKILL.md${commit ? ` (${commit.slice(0, 7)})` : ""}`;
+
+  const oldHashes = new Map((meta.files ?? []).map(file => [file.path, file.sha256]));
+  const newPaths = new Set(download.files.map(file => file.path));
+  const added: string[] = [];
+  const modified: string[] = [];
+  for (const file of download.files) {
+    if (!oldHashes.has(file.path)) added.push(file.path);
+    else if (oldHashes.get(file.path) !== sha256(file.content)) modified.push(file.path);
+  }
+  const removed = [...oldHashes.keys()].filter(filePath => !newPaths.has(filePath));
+
+  return {
+    ...base,
+    pin,
+    changed: added.length > 0 || removed.length > 0 || modified.length > 0 || oldHashes.size === 0,
+    skillMdDiff: unifiedDiff(oldSkillMd, newSkillMd, label(currentCommit), label(pin.commit)),
+    added,
+    removed,
+    modified,
+    license: frontmatterString(newSkillMd, "license"),
+  };
+}
+
+/**
+ * Every regular file in a skill directory that an install could have written (hidden files excluded).
+ */
+async function listSkillDirFiles(skillDir: string): Promise<string[] | null> {
+  try {
+    return (await listDirectoryFiles(skillDir)).filter(isInstallablePath);
+  } catch {
+    return null;
+  }
+}
+
+export interface UnmanagedSkill {
+  /** Directory name under the skills directory. */
+  dirName: string;
+  /** Frontmatter name, or the directory name without one. */
+  name: string;
+  /** Frontmatter license, if declared. */
+  license?: string;
+  files: SkillFileRecord[];
+}
+
+/**
+ * Skills in the skills directory that VibeClaw didn't install (no .vibeclaw.json).
+ * Directories whose name VibeClaw couldn't manage, or that exceed the file count and size
+ * limits of an install, are left out.
+ */
+export async function listUnmanagedSkills(): Promise<UnmanagedSkill[]> {
+  const entries = await fs.readdir(SKILLS_DIR, { withFileTypes: true }).catch(() => []);
+  const skills: UnmanagedSkill[] = [];
+  for (const entry of entries) {
+    const dir = path.join(SKILLS_DIR, entry.name);
+    if (!entry.isDirectory() || sanitizeSkillName(entry.name) !== entry.name || await isManagedSkillDir(dir)) continue;
+    const relPaths = await listSkillDirFiles(dir);
+    if (!relPaths?.includes("SKILL.md") || relPaths.length > MAX_SKILL_FILES) continue;
+    let listing;
+    try {
+      listing = await Promise.all(relPaths.map(async relPath => ({ path: relPath, size: (await fs.stat(path.join(dir, relPath))).size })));
+    } catch {
+      continue;
+    }
+    const read = await readSkillFiles(listing, "", dir, relPath => fs.readFile(path.join(dir, relPath)));
+    if ("error" in read) continue;
+    const { files } = read;
+    const skillMd = files.find(file => file.path === "SKILL.md")!.content.toString("utf-8");
+    skills.push({
+      dirName: entry.name,
+      name: skillMdName(skillMd) ?? entry.name,
+      license: frontmatterString(skillMd, "license"),
+      files: files.map(file => ({ path: file.path, size: file.content.length, sha256: sha256(file.content) })),
+    });
+  }
+  return skills;
+}
+
+export interface AdoptionMatch {
+  source: SkillSource;
+  /** Where the skill was found upstream, at the source's current revision. */
+  pin: SkillPin;
+  sourceUrl: string;
+  /** The files on disk are exactly the upstream files at pin.commit. */
+  identical: boolean;
+  /** Files that differ from upstream, are only upstream, or are only on disk. */
+  modified: string[];
+  missing: string[];
+  extra: string[];
+}
+
+/**
+ * Compare an unmanaged skill with the same skill in a source, located by frontmatter name.
+ */
+export async function compareWithSource(skill: UnmanagedSkill, source: SkillSource): Promise<AdoptionMatch | { error: string }> {
+  const download = await fetchSkill(source, skill.name, {});
+  if ("error" in download) return download;
+  const local = new Map(skill.files.map(file => [file.path, file.sha256]));
+  const upstream = new Map(download.files.map(file => [file.path, sha256(file.content)]));
+  const modified = [...upstream].filter(([filePath, hash]) => local.has(filePath) && local.get(filePath) !== hash).map(([filePath]) => filePath);
+  const missing = [...upstream.keys()].filter(filePath => !local.has(filePath));
+  const extra = [...local.keys()].filter(filePath => !upstream.has(filePath));
+  return {
+    source,
+    pin: download.pin,
+    sourceUrl: download.sourceUrl,
+    identical: modified.length === 0 && missing.length === 0 && extra.length === 0,
+    modified,
+    missing,
+    extra,
+  };
+}
+
+/**
+ * Start tracking an unmanaged skill as if VibeClaw had installed it from `match.source`.
+ * Nothing is downloaded or changed on disk besides the new .vibeclaw.json. The commit is
+ * only recorded (and the lockfile entry written) when the files are identical to upstream,
+ * so an adopted skill with local changes shows up as updatable.
+ */
+export async function adoptSkill(skill: UnmanagedSkill, match: AdoptionMatch, opts?: { resourceId?: string }): Promise<InstallResult> {
+  const skillDir = path.join(SKILLS_DIR, skill.dirName);
+  if (await isManagedSkillDir(skillDir)) {
+    return { success: false, skillName: skill.dirName, error: `"${skill.dirName}" is already managed by VibeClaw.` };
+  }
+  const lockError = await lockfileError();
+  if (lockError) return { success: false, skillName: skill.dirName, error: lockError };
+  const { source, pin } = match;
+  const meta: SkillMeta = {
+    installedBy: "vibeclaw",
+    installedAt: new Date().toISOString(),
+    source: formatSkillSource(source),
+    sourceKind: source.kind,
+    sourceUrl: match.sourceUrl,
+    skillName: skill.dirName,
+    resourceId: opts?.resourceId,
+    owner: source.kind === "github" ? source.owner : undefined,
+    repo: source.kind === "github" ? source.repo : undefined,
+    slug: skill.dirName,
+    ref: pin.ref,
+    commit: match.identical ? pin.commit : undefined,
+    path: pin.path,
+    files: skill.files,
+    adopted: true,
+  };
+  await writeSkillMeta(skillDir, meta);
+  if (meta.commit) await recordLockedSkill(skill.dirName, lockEntry(meta));
+
+  return {
+    success: true,
+    skillName: skill.dirName,
+    installPath: skillDir,
+    sourceUrl: match.sourceUrl,
+    commit: meta.commit,
+    files: skill.files,
+  };
+}
+
+/**
+ * Re-run the local scanner over an installed skill's files on disk.
+ * Uses the recorded file list when available, otherwise everything in the skill directory.
+ */
+export async function scanInstalledSkill(skillName: string): Promise<ScanReport | null> {
+  const safeName = sanitizeSkillName(skillName);
+  if (!safeName) return null;
+  const location = await managedSkillDir(safeName);
+  const skillDir = location?.dir ?? path.join(SKILLS_DIR, safeName);
+  const meta = location ? await readSkillMeta(location.dir) : null;
+
+  let relPaths: string[];
+  if (meta?.files) {
+    relPaths = meta.files.map(file => file.path);
+  } else {
+    const listed = await listSkillDirFiles(skillDir);
+    if (!listed) return null;
+    relPaths = listed;
+  }
+
+  const files: SkillFile[] = [];
+  for (const relPath of relPaths) {
+    const target = resolveInsideSkillDir(skillDir, relPath);
+    if (!target) continue;
+    try {
+      files.push({ path: relPath, content: await fs.readFile(target) });
+    } catch {
+      // Missing files are reported by verification, not the scanner
+    }
+  }
+  return scanSkillFiles(files);
+}
+
+export type UpstreamRepoStatus =
+  | { status: "ok" }
+  | { status: "moved"; fullName: string }
+  | { status: "deleted" }
+  | { status: "unknown"; error: string };
+
+/**
+ * Check that a skill's upstream GitHub repo still exists under the same name.
+ * GitHub redirects renamed/transferred repos, so a different full_name means it moved.
+ */
+export async function checkUpstreamRepo(owner: string, repo: string): Promise<UpstreamRepoStatus> {
+  try {
+    const response = await sourceFetch(`https://api.github.com/repos/${owner}/${repo}`, "application/vnd.github+json");
+    if (response.status === 404) return { status: "deleted" };
+    if (!response.ok) return { status: "unknown", error: `GitHub API ${response.status} ${response.statusText}` };
+    const data = await response.json() as { full_name?: string };
+    if (data.full_name && data.full_name.toLowerCase() !== `${owner}/${repo}`.toLowerCase()) {
+      return { status: "moved", fullName: data.full_name };
+    }
+    return { status: "ok" };
+  } catch (err) {
+    return { status: "unknown", error: (err as Error).message };
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * VibeClaw Skill Manifest
+ * Parses and validates SKILL.md YAML frontmatter against the fields OpenClaw uses to load
+ * and gate skills, and checks a skill's requirements against this machine.
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+
+const PLATFORMS = ["darwin", "linux", "win32"];
+
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---(\r?\n|$)/;
+
+export interface SkillRequirements {
+  /** Every binary must be on PATH. */
+  bins: string[];
+  /** At least one binary must be on PATH. */
+  anyBins: string[];
+  env: string[];
+  /** openclaw.json paths that must be truthy. */
+  config: string[];
+  /** Other skills this one needs: Vibe Index id, owner/repo/slug or name. */
+  skills: string[];
+  /** MCP servers this one needs, identified the same way. */
+  mcp: string[];
+}
+
+export interface SkillManifest {
+  name: string;
+  description: string;
+  version?: string;
+  homepage?: string;
+  /** SPDX id or license name from the frontmatter. */
+  license?: string;
+  /** Platforms the skill is limited to (empty means any). */
+  os: string[];
+  requires: SkillRequirements;
+  primaryEnv?: string;
+}
+
+/**
+ * The raw frontmatter object of a SKILL.md, or null if there is none or it isn't valid YAML.
+ */
+export function readFrontmatter(content: string): Record<string, unknown> | null {
+  const match = FRONTMATTER.exec(content);
+  if (!match) return null;
+  try {
+    const parsed = parseYaml(match[1]);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed as Record<string, unknown> : null;
+  } catch {
+    return null;
+  }
+}
+
+function stringList(value: unknown, field: string, errors: string[]): string[] {
+  if (value === undefined || value === null) return [];
+  if (Array.isArray(value) && value.every(item => typeof item === "string")) return value;
+  errors.push(`${field} must be a list of strings`);
+  return [];
+}
+
+function optionalString(value: unknown, field: string, errors: string[]): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === "string") return value;
+  if (typeof value === "number") return String(value);
+  errors.push(`${field} must be a string`);
+  return undefined;
+}
+
+/**
+ * Parse a SKILL.md's frontmatter into a manifest. Errors make the skill uninstallable;
+ * warnings are things OpenClaw tolerates but that are probably mistakes.
+ */
+export function parseSkillManifest(content: string): { manifest: SkillManifest; warnings: string[] } | { errors: string[] } {
+  const match = FRONTMATTER.exec(content);
+  if (!match) return { errors: ["SKILL.md has no YAML frontmatter (--- delimited block at the top)"] };
+
+  let data: unknown;
+  try {
+    data = parseYaml(match[1]);
+  } catch (err) {
+    return { errors: [`frontmatter is not valid YAML: ${(err as Error).message.split("\n")[0]}`] };
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    return { errors: ["frontmatter must be a YAML mapping"] };
+  }
+  const fm = data as Record<string, unknown>;
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (typeof fm.name !== "string" || !fm.name.trim()) errors.push("name is required");
+  else if (!/^[a-z0-9][a-z0-9._-]*$/i.test(fm.name)) warnings.push(`name "${fm.name}" should only use letters, digits, "-", "_" and "."`);
+  if (typeof fm.description !== "string" || !fm.description.trim()) errors.push("description is required");
+
+  // metadata is a single-line JSON object by convention; YAML parses it as a flow mapping
+  let metadata = fm.metadata;
+  if (typeof metadata === "string") {
+    try {
+      metadata = JSON.parse(metadata);
+    } catch {
+      errors.push("metadata must be a JSON object");
+      metadata = undefined;
+    }
+  }
+  if (metadata !== undefined && metadata !== null && (typeof metadata !== "object" || Array.isArray(metadata))) {
+    errors.push("metadata must be an object");
+    metadata = undefined;
+  }
+  const meta = metadata as Record<string, unknown> | undefined;
+  // Skills written for older releases use the clawdbot key
+  const openclaw = (meta?.openclaw ?? meta?.clawdbot ?? {}) as Record<string, unknown>;
+  const requires = (openclaw.requires ?? {}) as Record<string, unknown>;
+
+  const os = stringList(openclaw.os, "metadata.openclaw.os", errors);
+  const unknownOs = os.filter(platform => !PLATFORMS.includes(platform));
+  if (unknownOs.length) warnings.push(`unknown os ${unknownOs.join(", ")} (expected ${PLATFORMS.join(", ")})`);
+
+  const manifest: SkillManifest = {
+    name: typeof fm.name === "string" ? fm.name.trim() : "",
+    description: typeof fm.description === "string" ? fm.description.trim() : "",
+    version: optionalString(fm.version ?? openclaw.version, "version", errors),
+    homepage: optionalString(fm.homepage ?? openclaw.homepage, "homepage", errors),
+    license: optionalString(fm.license, "license", errors),
+    os,
+    requires: {
+      bins: stringList(requires.bins, "metadata.openclaw.requires.bins", errors),
+      anyBins: stringList(requires.anyBins, "metadata.openclaw.requires.anyBins", errors),
+      env: stringList(requires.env, "metadata.openclaw.requires.env", errors),
+      config: stringList(requires.config, "metadata.openclaw.requires.config", errors),
+      skills: stringList(requires.skills, "metadata.openclaw.requires.skills", errors),
+      mcp: stringList(requires.mcp, "metadata.openclaw.requires.mcp", errors),
+    },
+    primaryEnv: optionalString(openclaw.primaryEnv, "metadata.openclaw.primaryEnv", errors),
+  };
+
+  return errors.length > 0 ? { errors } : { manifest, warnings };
+}
+
+async function isOnPath(bin: string): Promise<boolean> {
+  const dirs = (process.env.PATH ?? "").split(path.delimiter).filter(Boolean);
+  const exts = process.platform === "win32" ? ["", ...(process.env.PATHEXT ?? ".EXE;.CMD;.BAT").split(";")] : [""];
+  for (const dir of dirs) {
+    for (const ext of exts) {
+      try {
+        await fs.access(path.join(dir, bin + ext), fs.constants.X_OK);
+        return true;
+      } catch {
+        // Keep looking
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Requirements this machine doesn't meet. OpenClaw won't load the skill until they're met,
+ * except env vars, which can also come from skills.entries.<name>.env in the config.
+ */
+export async function checkRequirements(manifest: SkillManifest): Promise<string[]> {
+  const missing: string[] = [];
+  if (manifest.os.length > 0 && !manifest.os.includes(process.platform)) {
+    missing.push(`only runs on ${manifest.os.join(", ")} (this is ${process.platform})`);
+  }
+  for (const bin of manifest.requires.bins) {
+    if (!await isOnPath(bin)) missing.push(`binary "${bin}" not found on PATH`);
+  }
+  if (manifest.requires.anyBins.length > 0) {
+    const found = await Promise.all(manifest.requires.anyBins.map(isOnPath));
+    if (!found.includes(true)) missing.push(`none of ${manifest.requires.anyBins.join(", ")} found on PATH`);
+  }
+  for (const name of manifest.requires.env) {
+    if (!process.env[name]) missing.push(`env var ${name} is not set (or set it in skills.entries.${manifest.name}.env)`);
+  }
+  return missing;
+}
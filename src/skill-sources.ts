@@ -0,0 +1,366 @@
+/**
+ * VibeClaw Skill Sources
+ * Where a skill can be installed from besides public GitHub (self-hosted git servers,
+ * HTTPS tarballs, local directories) and the credentials used to reach private ones.
+ */
+
+import { execFile } from "node:child_process";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { promisify } from "node:util";
+import { gunzipSync } from "node:zlib";
+import { USER_AGENT } from "./vibe-index-client.js";
+
+export type SkillSource =
+  | { kind: "github"; owner: string; repo: string; ref?: string }
+  | { kind: "git"; url: string; ref?: string }
+  | { kind: "tarball"; url: string }
+  | { kind: "file"; path: string };
+
+export type SourceKind = SkillSource["kind"];
+
+export interface HostCredential {
+  token: string;
+  /** Sent as HTTP Basic auth when set; otherwise the token is sent as a Bearer token. */
+  username?: string;
+}
+
+const HTTP_TIMEOUT_MS = 15_000;
+const GIT_TIMEOUT_MS = 60_000;
+const MAX_ARCHIVE_BYTES = 20 * 1024 * 1024;
+const MAX_SOURCE_FILES = 10_000;
+
+/** Branch, tag or commit names passed to git; nothing that git could read as an option. */
+const SAFE_REF = /^(?!-)[\w./-]+$/;
+
+const GITHUB_HOSTS = new Set(["github.com", "api.github.com", "raw.githubusercontent.com", "codeload.github.com"]);
+
+const credentials: { githubToken?: string; hosts: Record<string, HostCredential> } = {
+  githubToken: process.env.GITHUB_TOKEN || process.env.GH_TOKEN || undefined,
+  hosts: {},
+};
+
+/**
+ * Set the credentials used for private sources. The GitHub token falls back to
+ * GITHUB_TOKEN / GH_TOKEN; per-host credentials are keyed by host (with port, if any).
+ */
+export function configureCredentials(opts: { githubToken?: string; hosts?: Record<string, HostCredential> }): void {
+  credentials.githubToken = opts.githubToken || process.env.GITHUB_TOKEN || process.env.GH_TOKEN || undefined;
+  credentials.hosts = Object.fromEntries(
+    Object.entries(opts.hosts ?? {}).map(([host, credential]) => [host.toLowerCase(), credential]));
+}
+
+function credentialFor(host: string): HostCredential | null {
+  const key = host.toLowerCase();
+  if (credentials.hosts[key]) return credentials.hosts[key];
+  if (GITHUB_HOSTS.has(key)) {
+    return credentials.hosts["github.com"] ?? (credentials.githubToken ? { token: credentials.githubToken } : null);
+  }
+  return null;
+}
+
+function authHeaders(url: string): Record<string, string> {
+  const credential = credentialFor(new URL(url).host);
+  if (!credential) return {};
+  return {
+    Authorization: credential.username
+      ? `Basic ${Buffer.from(`${credential.username}:${credential.token}`).toString("base64")}`
+      : `Bearer ${credential.token}`,
+  };
+}
+
+/**
+ * GET with a timeout and any configured credentials for the host, so a stalled
+ * connection can't hang an install. fetch drops Authorization on cross-origin redirects.
+ */
+export async function sourceFetch(url: string, accept?: string): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), HTTP_TIMEOUT_MS);
+  try {
+    return await globalThis.fetch(url, {
+      headers: { "User-Agent": USER_AGENT, ...authHeaders(url), ...(accept ? { Accept: accept } : {}) },
+      signal: controller.signal,
+    });
+  } catch (err) {
+    throw controller.signal.aborted ? new Error(`timed out after ${HTTP_TIMEOUT_MS}ms`) : err;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Parse a source spec. Accepted forms (git sources take an optional #ref):
+ *   github:owner/repo, https://github.com/owner/repo
+ *   git+https://host/group/repo.git, https://host/group/repo.git, git@host:group/repo.git, ssh://...
+ *   tarball+https://host/archive, https://host/skill.tar.gz (.tgz, .tar)
+ *   file:///absolute/path
+ * URLs and refs that start with "-" or contain characters outside a ref's usual set are refused,
+ * since both end up on a git command line.
+ */
+export function parseSkillSource(spec: string): SkillSource | null {
+  const trimmed = spec.trim();
+  const hash = trimmed.indexOf("#");
+  const base = hash >= 0 ? trimmed.slice(0, hash) : trimmed;
+  const ref = hash >= 0 ? trimmed.slice(hash + 1) || undefined : undefined;
+  if (ref !== undefined && !SAFE_REF.test(ref)) return null;
+
+  const github = /^github:([\w.-]+)\/([\w.-]+)$/.exec(base)
+    ?? /^https:\/\/github\.com\/([\w.-]+)\/([\w.-]+?)(?:\.git)?\/?$/.exec(base);
+  if (github) return { kind: "github", owner: github[1], repo: github[2], ref };
+
+  if (base.startsWith("file:")) {
+    try {
+      return { kind: "file", path: fileURLToPath(base) };
+    } catch {
+      return null;
+    }
+  }
+  if (base.startsWith("tarball+")) return { kind: "tarball", url: base.slice("tarball+".length) };
+  if (base.startsWith("git+")) {
+    const url = base.slice("git+".length);
+    return url && !url.startsWith("-") ? { kind: "git", url, ref } : null;
+  }
+  if (/^(ssh|git):\/\//.test(base) || /^\w[\w.-]*@[\w.-]+:/.test(base)) return { kind: "git", url: base, ref };
+  if (/^https?:\/\//.test(base)) {
+    if (/\.(tar\.gz|tgz|tar)(\?|$)/.test(base)) return { kind: "tarball", url: base };
+    if (/\.git\/?$/.test(base)) return { kind: "git", url: base, ref };
+  }
+  return null;
+}
+
+/**
+ * Canonical spec for a source, as stored in .vibeclaw.json and the lockfile.
+ * The ref is recorded separately, so it is left out.
+ */
+export function formatSkillSource(source: SkillSource): string {
+  switch (source.kind) {
+    case "github": return `github:${source.owner}/${source.repo}`;
+    case "git": return `git+${source.url}`;
+    case "tarball": return `tarball+${source.url}`;
+    case "file": return pathToFileURL(source.path).href;
+  }
+}
+
+function hostOf(url: string): string | null {
+  const scp = /^[\w.-]+@([\w.-]+):/.exec(url);
+  if (scp) return scp[1];
+  try {
+    return new URL(url).host || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Publisher of a source for the allowlist: the GitHub owner, or the host of other remote sources.
+ * Local directories have no publisher.
+ */
+export function sourcePublisher(source: SkillSource): string | null {
+  if (source.kind === "github") return source.owner;
+  if (source.kind === "file") return null;
+  return hostOf(source.url);
+}
+
+/**
+ * Skill name to use when the caller didn't give one: the subdirectory, repo, archive or directory name.
+ */
+export function defaultSkillName(source: SkillSource, subdir?: string): string {
+  const last = (value: string) => value.split(/[/:]/).filter(Boolean).pop() ?? "";
+  if (subdir) return last(subdir);
+  if (source.kind === "github") return source.repo;
+  if (source.kind === "file") return path.basename(source.path);
+  return last(source.url.replace(/[?#].*$/, "")).replace(/\.(git|tar\.gz|tgz|tar)$/, "");
+}
+
+/** Files of a non-GitHub source at one revision. */
+export interface SourceSnapshot {
+  /** Ref the revision was resolved from ("" for tarballs and local directories). */
+  ref: string;
+  /** Commit SHA for git sources; tarballs and directories have none. */
+  commit?: string;
+  /** Every regular file, with "/"-separated paths relative to the source root. */
+  files: Array<{ path: string; size: number }>;
+  read(filePath: string): Promise<Buffer>;
+  dispose(): Promise<void>;
+}
+
+/**
+ * Open a git, tarball or local directory source. Git sources fetch the given commit
+ * (or ref, default HEAD); nothing is checked out, so symlinks and hooks never reach the disk.
+ */
+export async function openSnapshot(
+  source: Exclude<SkillSource, { kind: "github" }>,
+  target?: { ref?: string; commit?: string },
+): Promise<SourceSnapshot> {
+  if (source.kind === "git") return openGitSnapshot(source.url, target?.ref ?? source.ref ?? "HEAD", target?.commit);
+  if (source.kind === "tarball") return openTarballSnapshot(source.url);
+  return openDirectorySnapshot(source.path);
+}
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Pass credentials to git through GIT_CONFIG_* so tokens never appear on a command line.
+ */
+function gitEnv(url: string): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = { ...process.env, GIT_TERMINAL_PROMPT: "0" };
+  if (!/^https?:\/\//.test(url)) return env;
+  const { origin, host } = new URL(url);
+  const credential = credentialFor(host);
+  if (!credential) return env;
+  const username = credential.username ?? (GITHUB_HOSTS.has(host.toLowerCase()) ? "x-access-token" : "oauth2");
+  env.GIT_CONFIG_COUNT = "1";
+  env.GIT_CONFIG_KEY_0 = `http.${origin}/.extraHeader`;
+  env.GIT_CONFIG_VALUE_0 = `Authorization: Basic ${Buffer.from(`${username}:${credential.token}`).toString("base64")}`;
+  return env;
+}
+
+async function git(args: string[], cwd: string, url: string): Promise<Buffer> {
+  try {
+    const { stdout } = await execFileAsync("git", args, {
+      cwd,
+      env: gitEnv(url),
+      encoding: "buffer",
+      timeout: GIT_TIMEOUT_MS,
+      maxBuffer: 16 * 1024 * 1024,
+    });
+    return stdout;
+  } catch (err) {
+    const stderr = (err as { stderr?: Buffer }).stderr?.toString("utf-8").trim().split("\n").pop();
+    throw new Error(`git ${args[0]} failed for ${url}: ${stderr || (err as Error).message}`);
+  }
+}
+
+async function openGitSnapshot(url: string, ref: string, commit?: string): Promise<SourceSnapshot> {
+  // Refs and commits also come from the lockfile and .vibeclaw.json, not just parseSkillSource
+  if (url.startsWith("-")) throw new Error(`Refusing git URL "${url}".`);
+  const wanted = commit ?? ref;
+  if (!SAFE_REF.test(wanted)) throw new Error(`Refusing git ref "${wanted}".`);
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "vibeclaw-git-"));
+  const dispose = () => fs.rm(dir, { recursive: true, force: true });
+  try {
+    await git(["init", "-q"], dir, url);
+    await git(["fetch", "-q", "--depth", "1", "--no-tags", "--", url, wanted], dir, url);
+    const head = (await git(["rev-parse", "FETCH_HEAD"], dir, url)).toString("utf-8").trim();
+    if (commit && head !== commit) throw new Error(`${url} returned ${head} instead of ${commit}`);
+
+    // "<mode> <type> <object> <size>\t<path>", NUL-separated; only regular files are installable
+    const blobs = new Map<string, { object: string; size: number }>();
+    for (const line of (await git(["ls-tree", "-r", "-z", "--long", head], dir, url)).toString("utf-8").split("\0")) {
+      const match = /^(100644|100755) blob ([0-9a-f]+)\s+(\d+)\t(.+)$/s.exec(line);
+      if (match) blobs.set(match[4], { object: match[2], size: Number(match[3]) });
+    }
+    return {
+      ref,
+      commit: head,
+      files: [...blobs].map(([filePath, blob]) => ({ path: filePath, size: blob.size })),
+      read: filePath => git(["cat-file", "blob", blobs.get(filePath)!.object], dir, url),
+      dispose,
+    };
+  } catch (err) {
+    await dispose();
+    throw err;
+  }
+}
+
+/**
+ * Minimal ustar/GNU/pax reader: regular files only, everything else is ignored, as are
+ * entries whose name escapes the archive root.
+ */
+function parseTar(archive: Buffer): Map<string, Buffer> {
+  const files = new Map<string, Buffer>();
+  let longName: string | null = null;
+  for (let offset = 0; offset + 512 <= archive.length;) {
+    const header = archive.subarray(offset, offset + 512);
+    if (header.every(byte => byte === 0)) break;
+    const field = (start: number, length: number) =>
+      header.subarray(start, start + length).toString("utf-8").replace(/\0.*$/s, "");
+    const size = parseInt(field(124, 12).trim() || "0", 8);
+    const type = field(156, 1) || "0";
+    const body = archive.subarray(offset + 512, offset + 512 + size);
+    offset += 512 + Math.ceil(size / 512) * 512;
+
+    if (type === "L") { longName = body.toString("utf-8").replace(/\0.*$/s, ""); continue; }
+    if (type === "x") {
+      const pax = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(body.toString("utf-8"));
+      if (pax) longName = pax[1];
+      continue;
+    }
+    const prefix = header.subarray(257, 263).toString("latin1") === "ustar\0" ? field(345, 155) : "";
+    const name = longName ?? (prefix ? `${prefix}/${field(0, 100)}` : field(0, 100));
+    longName = null;
+    const entry = name.replace(/^\.\//, "");
+    // Absolute names and ".." segments would point outside the skill directory
+    if (entry.startsWith("/") || entry.split(/[\\/]/).includes("..")) continue;
+    if (type === "0" || type === "7") files.set(entry, Buffer.from(body));
+  }
+  return files;
+}
+
+async function openTarballSnapshot(url: string): Promise<SourceSnapshot> {
+  const response = await sourceFetch(url);
+  if (!response.ok) throw new Error(`Could not download ${url}: ${response.status} ${response.statusText}`);
+  if (Number(response.headers.get("content-length") ?? 0) > MAX_ARCHIVE_BYTES) {
+    throw new Error(`${url} is larger than ${MAX_ARCHIVE_BYTES} bytes.`);
+  }
+  let archive = Buffer.from(await response.arrayBuffer());
+  if (archive.length > MAX_ARCHIVE_BYTES) throw new Error(`${url} is larger than ${MAX_ARCHIVE_BYTES} bytes.`);
+  if (archive[0] === 0x1f && archive[1] === 0x8b) {
+    try {
+      archive = gunzipSync(archive, { maxOutputLength: MAX_ARCHIVE_BYTES * 4 });
+    } catch (err) {
+      throw new Error(`Could not decompress ${url}: ${(err as Error).message}`);
+    }
+  }
+
+  let entries = parseTar(archive);
+  // Host-generated archives wrap everything in one "<repo>-<ref>/" directory
+  const tops = new Set([...entries.keys()].map(name => name.split("/")[0]));
+  if (tops.size === 1 && [...entries.keys()].every(name => name.includes("/"))) {
+    const top = [...tops][0].length + 1;
+    entries = new Map([...entries].map(([name, content]) => [name.slice(top), content]));
+  }
+  return {
+    ref: "",
+    files: [...entries].map(([filePath, content]) => ({ path: filePath, size: content.length })),
+    read: async filePath => entries.get(filePath)!,
+    dispose: async () => {},
+  };
+}
+
+/**
+ * Every regular file under root, as "/"-separated paths relative to it. Symlinks are skipped
+ * (isFile is false for them), so nothing outside root is read. The walk stops as soon as more
+ * than `maxFiles` files were found, so an oversized tree returns maxFiles + 1 paths.
+ */
+export async function listDirectoryFiles(root: string, maxFiles = Infinity): Promise<string[]> {
+  const files: string[] = [];
+  const walk = async (dir: string, prefix: string): Promise<void> => {
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+      if (files.length > maxFiles) return;
+      if (entry.isDirectory()) await walk(path.join(dir, entry.name), `${prefix}${entry.name}/`);
+      else if (entry.isFile()) files.push(`${prefix}${entry.name}`);
+    }
+  };
+  await walk(root, "");
+  return files;
+}
+
+async function openDirectorySnapshot(root: string): Promise<SourceSnapshot> {
+  let files;
+  try {
+    files = await listDirectoryFiles(root, MAX_SOURCE_FILES);
+  } catch (err) {
+    throw new Error(`Could not read ${root}: ${(err as Error).message}`);
+  }
+  if (files.length > MAX_SOURCE_FILES) throw new Error(`${root} has more than ${MAX_SOURCE_FILES} files.`);
+  return {
+    ref: "",
+    files: await Promise.all(files.map(async filePath =>
+      ({ path: filePath, size: (await fs.stat(path.join(root, filePath))).size }))),
+    read: filePath => fs.readFile(path.join(root, filePath)),
+    dispose: async () => {},
+  };
+}
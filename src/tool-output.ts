@@ -0,0 +1,254 @@
+/**
+ * VibeClaw JSON Output
+ * The structured results every tool returns with format "json", for other plugins and CI scripts.
+ * Within an OUTPUT_VERSION fields are only ever added; renaming or removing one bumps it.
+ */
+
+import type { VibeResource, CacheInfo } from "./vibe-index-client.js";
+import type { RegistryTrust } from "./registry.js";
+import type { Gate } from "./install-plan.js";
+import type { ScanFinding } from "./security-scanner.js";
+import type { SkillMeta, SkillAuditRecord, SkillVerification } from "./skill-installer.js";
+import type { ResourceMeta } from "./resource-installer.js";
+import type { InstallRequest } from "./approvals.js";
+import type { HistoryEvent } from "./history.js";
+import type { SearchFilters, SearchSort } from "./search.js";
+import { formatSecurityBadge, resourceIdentifier } from "./format.js";
+
+export const OUTPUT_VERSION = 1;
+
+export type OutputFormat = "text" | "json";
+
+/** Envelope around every JSON result. */
+export type ToolOutput<T> = { version: typeof OUTPUT_VERSION; tool: string } & T;
+
+/** The fields of a VibeResource worth acting on, with stable names. */
+export interface ResourceSummary {
+  id: string;
+  name: string;
+  slug: string;
+  type: VibeResource["resource_type"];
+  description: string | null;
+  /** GitHub owner. */
+  publisher: string | null;
+  /** "owner/repo". */
+  repo: string | null;
+  /** owner/repo/slug, accepted by vibeclaw_install as query. */
+  identifier: string | null;
+  url: string | null;
+  stars: number;
+  badges: Array<"official" | "verified" | "trending">;
+  tags: string[];
+  license: string | null;
+  /** Last push to the repo, when known. */
+  updatedAt: string | null;
+  registry: string | null;
+  trust: RegistryTrust | null;
+  security: {
+    /** Vibe Index risk score; higher is riskier, null when not scanned yet. */
+    score: number | null;
+    flags: string[];
+    /** Cisco deep scan verdict: "safe", "unsafe", or "pending" when there is none. */
+    scan: "safe" | "unsafe" | "pending";
+    severity: string | null;
+    /** Same wording as the text output, e.g. "Verified safe (Cisco scan)". */
+    badge: string;
+  };
+  /** Stars gained in the trending period (trending only). */
+  starGrowth?: number;
+}
+
+/** vibeclaw_search */
+export interface SearchOutput {
+  query: string;
+  /** Registry hits for the query before filters. */
+  total: number;
+  results: ResourceSummary[];
+  filters: SearchFilters;
+  sort: SearchSort;
+  /** Pass as cursor to get the next page; null on the last one. */
+  nextCursor: string | null;
+  /** Set when the results came from the local cache (offline, or the registry failed). */
+  cached: CacheInfo | null;
+}
+
+/** vibeclaw_trending; every result has starGrowth. */
+export interface TrendingOutput {
+  period: "day" | "week" | "month";
+  results: ResourceSummary[];
+  cached: CacheInfo | null;
+}
+
+/** Any tool, when it failed outright. */
+export interface ErrorOutput {
+  error: string;
+}
+
+/** Whether an install or update was let through, and if not, which check stopped it. */
+export interface SecurityDecision {
+  allowed: boolean;
+  gate: Gate | null;
+  /** Why it was blocked, one entry per blocked item. Empty when allowed. */
+  reasons: string[];
+}
+
+export type InstallStatus =
+  | "installed"
+  | "already_installed"
+  | "pending_approval"
+  | "blocked"
+  /** The query matched several resources; pick one from candidates. */
+  | "needs_choice"
+  | "not_found"
+  | "failed"
+  /** Installation is off (search-only or offline mode). */
+  | "unavailable";
+
+/** vibeclaw_install */
+export interface InstallOutput {
+  status: InstallStatus;
+  name: string | null;
+  type: VibeResource["resource_type"] | null;
+  /** Registry entry; null for skills installed straight from a source. */
+  resource: ResourceSummary | null;
+  /** Null when the install stopped before the checks ran (not found, ambiguous, download failed). */
+  decision: SecurityDecision | null;
+  /** Skills: where it was written, the commit and the number of files. */
+  path?: string;
+  commit?: string;
+  files?: number;
+  /** MCP servers and plugins: key under mcp.servers or plugins.entries. */
+  configKey?: string;
+  /** Local scan of the downloaded files. */
+  findings?: ScanFinding[];
+  warnings?: string[];
+  dependencies?: Array<{ name: string; type: string; requiredBy: string; alreadyInstalled: boolean; blocked: string | null }>;
+  candidates?: ResourceSummary[];
+  requestId?: string;
+  /** The text output. */
+  message: string;
+}
+
+export type UpdateStatus = "up_to_date" | "update_available" | "would_update" | "pending_approval" | "updated" | "blocked" | "pinned" | "failed" | "error";
+
+export interface UpdateEntry {
+  name: string;
+  status: UpdateStatus;
+  /** Installed and upstream commit, when an update was found. */
+  from?: string | null;
+  to?: string;
+  added?: string[];
+  removed?: string[];
+  modified?: string[];
+  decision?: SecurityDecision;
+  findings?: ScanFinding[];
+  requestId?: string;
+  error?: string;
+}
+
+/** vibeclaw_update */
+export interface UpdateOutput {
+  skills: UpdateEntry[];
+}
+
+export interface InstalledSkillSummary {
+  name: string;
+  enabled: boolean;
+  pinned: boolean;
+  source: string | null;
+  commit: string | null;
+  installedAt: string | null;
+  resourceId: string | null;
+  lastAudit: SkillAuditRecord | null;
+}
+
+/** vibeclaw_manage; which optional fields are set depends on the action. */
+export interface ManageOutput {
+  action: string;
+  ok: boolean;
+  message: string;
+  skills?: InstalledSkillSummary[];
+  resources?: ResourceMeta[];
+  verification?: SkillVerification[];
+  requests?: InstallRequest[];
+  adoptions?: Array<{ skill: string; resourceId: string | null; source: string | null; identical: boolean; blocked: string | null; error?: string }>;
+  sync?: Array<{ skill: string; status: "installed" | "up_to_date" | "blocked" | "failed"; commit: string | null; error?: string }>;
+  /** In approval mode: the request that was created instead of making the change. */
+  requestId?: string;
+}
+
+export type AuditStatus = "safe" | "flagged" | "changed" | "not_found";
+
+export interface AuditEntry {
+  name: string;
+  type: "skill" | "mcp" | "plugin";
+  status: AuditStatus;
+  /** Why the entry is flagged or changed. */
+  reasons: string[];
+  /** Vibe Index security flags. */
+  flags: string[];
+  /** Local scan findings on the installed files (skills only). */
+  findings: ScanFinding[];
+  security: ResourceSummary["security"] | null;
+}
+
+/** vibeclaw_audit */
+export interface AuditOutput {
+  results: AuditEntry[];
+}
+
+/** vibeclaw_history, oldest first. */
+export interface HistoryOutput {
+  events: HistoryEvent[];
+}
+
+export function summarizeResource(r: VibeResource & { star_growth?: number }): ResourceSummary {
+  const badges: ResourceSummary["badges"] = [];
+  if (r.badges?.official || r.is_official) badges.push("official");
+  if (r.badges?.verified || r.is_verified) badges.push("verified");
+  if (r.badges?.trending) badges.push("trending");
+  const summary: ResourceSummary = {
+    id: r.id,
+    name: r.name,
+    slug: r.slug,
+    type: r.resource_type,
+    description: r.description,
+    publisher: r.github_owner,
+    repo: r.github_owner && r.github_repo ? `${r.github_owner}/${r.github_repo}` : null,
+    identifier: resourceIdentifier(r),
+    url: r.github_url,
+    stars: r.star_info?.count ?? r.stars ?? 0,
+    badges,
+    tags: r.tags ?? [],
+    license: r.license ?? null,
+    updatedAt: r.updated_at ?? null,
+    registry: r.registry ?? null,
+    trust: r.trust ?? null,
+    security: securitySummary(r),
+  };
+  if (r.star_growth !== undefined) summary.starGrowth = r.star_growth;
+  return summary;
+}
+
+export function securitySummary(r: VibeResource): ResourceSummary["security"] {
+  return {
+    score: r.security_score,
+    flags: r.security_flags ?? [],
+    scan: r.cisco_scan_result ? (r.cisco_scan_result.is_safe ? "safe" : "unsafe") : "pending",
+    severity: r.cisco_scan_result?.max_severity ?? null,
+    badge: formatSecurityBadge(r),
+  };
+}
+
+export function summarizeInstalledSkill(name: string, meta: SkillMeta | null, enabled: boolean): InstalledSkillSummary {
+  return {
+    name,
+    enabled,
+    pinned: meta?.pinned ?? false,
+    source: meta?.source ?? null,
+    commit: meta?.commit ?? null,
+    installedAt: meta?.installedAt ?? null,
+    resourceId: meta?.resourceId ?? null,
+    lastAudit: meta?.lastAudit ?? null,
+  };
+}
@@ -1,261 +1,391 @@
 /**
  * VibeClaw Tools
  * Agent tools for searching, installing, and managing skills via Vibe Index.
+ * Each factory returns a tool that register() hands to api.registerTool as is.
  */
 
-import { VibeIndexClient } from "./vibe-index-client.js";
+import { Type } from "@sinclair/typebox";
 import type { VibeResource } from "./vibe-index-client.js";
-import { installSkillFromGitHub, listInstalledSkills, uninstallSkill, getInstalledSkillMeta } from "./skill-installer.js";
+import { describeError } from "./errors.js";
+import { installSkillFromSource, rollbackSkill, getSkillBackupMeta, listInstalledSkills, listDisabledSkills, setSkillPinned, setSkillEnabled, verifyInstalledSkill, recordSkillAudit, listUnmanagedSkills, adoptSkill, uninstallSkill, getInstalledSkillMeta, syncFromLockfile, checkSkillUpdate, scanInstalledSkill } from "./skill-installer.js";
+import type { InstallResult, SkillUpdateCheck, UnmanagedSkill, AdoptionMatch } from "./skill-installer.js";
+import { formatSkillSource, parseSkillSource, sourcePublisher } from "./skill-sources.js";
+import { listInstalledResources, uninstallResource } from "./resource-installer.js";
+import { readLockfile, sha256 } from "./lockfile.js";
+import { listInstallRequests } from "./approvals.js";
+import type { InstallRequest } from "./approvals.js";
+import { searchResources, hasFilters, MAX_SCAN } from "./search.js";
+import type { SearchFilters, SearchSort } from "./search.js";
+import { recordEvent, readHistory, parseTimeBound, HISTORY_ACTIONS } from "./history.js";
+import type { HistoryAction } from "./history.js";
+import { blockingFindings, formatFindings } from "./security-scanner.js";
+import { createInstallFlow, checkAllowlist, checkSecurity, sourceSubject, planBlock } from "./install-flow.js";
+import type { InstallContext, InstallFlow, PendingInstall } from "./install-flow.js";
+import type { PlanBlock } from "./install-plan.js";
+import { formatSecurityBadge, formatScanSummary, formatCacheNote, formatResource, formatSkillInfo, formatInstallRequest, formatPendingRequest, formatHistoryEvent, formatSearchFilters } from "./format.js";
+import { OUTPUT_VERSION, summarizeResource, summarizeInstalledSkill, securitySummary } from "./tool-output.js";
+import type { OutputFormat, ToolOutput, SearchOutput, TrendingOutput, InstallOutput, UpdateEntry, ManageOutput, AuditEntry, HistoryOutput } from "./tool-output.js";
 
-export interface VibeClawConfig {
-  searchOnly: boolean;
-  allowedPublishers: string[] | null;
+export interface ToolContext extends InstallContext {
+  flow: InstallFlow;
 }
 
-/**
- * Check Vibe Index security scan data and block unsafe skills.
- * Returns an error message if the skill should not be installed, or null if safe.
- */
-function checkSecurity(skill: VibeResource): string | null {
-  // Cisco deep scan says unsafe → block
-  if (skill.cisco_scan_result && !skill.cisco_scan_result.is_safe) {
-    const sev = skill.cisco_scan_result.max_severity;
-    const count = skill.cisco_scan_result.findings_count;
-    return (
-      `⛔ BLOCKED: "${skill.name}" failed Vibe Index security scan.\n\n` +
-      `  Severity: ${sev}\n` +
-      `  Findings: ${count} issue(s) detected\n` +
-      (skill.security_flags?.length
-        ? `  Flags: ${skill.security_flags.join(", ")}\n`
-        : "") +
-      `\nThis skill has known security issues and cannot be installed.\n` +
-      `See https://vibeindex.ai for details.`
-    );
-  }
+export interface ToolResult {
+  content: Array<{ type: "text"; text: string }>;
+  details: unknown;
+}
 
-  // Pre-scan score >= 25 → block (warning/critical threshold)
-  if (skill.security_score !== null && skill.security_score >= 25) {
-    return (
-      `⛔ BLOCKED: "${skill.name}" has a high security risk score (${skill.security_score}).\n\n` +
-      (skill.security_flags?.length
-        ? `  Flags: ${skill.security_flags.join(", ")}\n`
-        : "") +
-      `\nThis skill has been flagged by Vibe Index security scanning and cannot be installed.\n` +
-      `See https://vibeindex.ai for details.`
-    );
-  }
+export function createToolContext(ctx: InstallContext): ToolContext {
+  return { ...ctx, flow: createInstallFlow(ctx) };
+}
 
-  return null;
+function reply(text: string): ToolResult {
+  return { content: [{ type: "text", text }], details: null };
 }
 
 /**
- * Check if a publisher is in the allowlist.
+ * The text output, or with format "json" the payload in the versioned envelope
+ * (as text for the agent and as details for other plugins).
  */
-function checkAllowlist(skill: VibeResource, allowedPublishers: string[] | null): string | null {
-  if (!allowedPublishers || allowedPublishers.length === 0) return null;
-  const owner = skill.github_owner;
-  if (!owner) {
-    return `⛔ BLOCKED: "${skill.name}" has no GitHub owner. Cannot verify publisher.`;
-  }
-  const allowed = allowedPublishers.map(p => p.toLowerCase());
-  if (!allowed.includes(owner.toLowerCase())) {
-    return (
-      `⛔ BLOCKED: "${skill.name}" is published by "${owner}", which is not in your allowlist.\n\n` +
-      `  Allowed publishers: ${allowedPublishers.join(", ")}\n\n` +
-      `To allow this publisher, add "${owner}" to plugins.entries.vibeclaw.config.allowedPublishers`
-    );
-  }
-  return null;
+function respond<T extends object>(format: OutputFormat | undefined, tool: string, text: string, payload: T): ToolResult {
+  if (format !== "json") return reply(text);
+  const output: ToolOutput<T> = { version: OUTPUT_VERSION, tool, ...payload };
+  return { content: [{ type: "text", text: JSON.stringify(output, null, 2) }], details: output };
 }
 
-/**
- * Format security status for display after successful install.
- */
-function formatSecurityBadge(skill: VibeResource): string {
-  if (skill.cisco_scan_result?.is_safe) {
-    return "🛡️ Verified safe (Cisco scan)";
-  }
-  if (skill.security_score === 0) {
-    return "🛡️ Pre-scanned (no issues)";
-  }
-  if (skill.security_score !== null && skill.security_score > 0 && skill.security_score < 25) {
-    return `⚠️ Minor flags (score: ${skill.security_score})`;
-  }
-  return "🔍 Scan pending";
+/** A request the tool refused (mode, missing arguments), as `{ error }` in JSON. */
+function refuse(format: OutputFormat | undefined, tool: string, message: string): ToolResult {
+  return respond(format, tool, message, { error: message });
 }
 
-function formatResource(r: VibeResource, index: number): string {
-  const stars = r.star_info?.count ?? r.stars ?? 0;
-  const badges: string[] = [];
-  if (r.badges?.official || r.is_official) badges.push("Official");
-  if (r.badges?.verified || r.is_verified) badges.push("Verified");
-  if (r.badges?.trending) badges.push("Trending");
+function fail(format: OutputFormat | undefined, tool: string, err: unknown): ToolResult {
+  return respond(format, tool, `Error: ${describeError(err)}`, { error: describeError(err) });
+}
 
-  const badgeStr = badges.length > 0 ? ` [${badges.join(", ")}]` : "";
-  const desc = r.description
-    ? r.description.length > 120
-      ? r.description.slice(0, 120) + "..."
-      : r.description
-    : "No description";
-  const typeLabel = r.resource_type.toUpperCase();
+const outputFormat = () => Type.Optional(Type.Union([Type.Literal("text"), Type.Literal("json")], {
+  description: `Output format (default: text). json returns a stable, versioned structure (version ${OUTPUT_VERSION}) for scripts and other plugins.`,
+}));
 
-  let result = `${index}. **${r.name}** (${typeLabel}) — ⭐ ${stars}${badgeStr}\n`;
-  result += `   ${desc}\n`;
-  result += `   Security: ${formatSecurityBadge(r)}\n`;
-  if (r.github_url) result += `   GitHub: ${r.github_url}\n`;
-  return result;
+const resourceType = () => Type.Union([
+  Type.Literal("skill"), Type.Literal("plugin"), Type.Literal("mcp"), Type.Literal("marketplace"),
+]);
+
+/** Agent-supplied limits are clamped to 1..maxResults. */
+function clampLimit(limit: number | undefined, maxResults: number): number {
+  return Math.min(Math.max(Math.floor(limit ?? maxResults), 1), maxResults);
 }
 
 /**
  * vibeclaw_search — Search Vibe Index for skills/plugins/MCP servers
  */
-export function createSearchTool(client: VibeIndexClient) {
+export function createSearchTool({ client, config, flow }: ToolContext) {
   return {
     name: "vibeclaw_search",
+    label: "VibeClaw Search",
     description:
-      "Search the Vibe Index ecosystem (93,600+ resources) for skills, plugins, MCP servers, and marketplaces. " +
-      "Use this when the user needs a capability you don't currently have, or when they ask about available tools. " +
-      "Returns ranked results. After finding a skill, use vibeclaw_install to install it directly.",
-    parameters: {
-      type: "object" as const,
-      properties: {
-        query: {
-          type: "string",
-          description: "Search query describing the capability needed (e.g., 'email', 'github pr', 'weather', 'pdf reader')",
-        },
-        type: {
-          type: "string",
-          enum: ["skill", "plugin", "mcp", "marketplace"],
-          description: "Filter by resource type. Omit to search all types.",
-        },
-        limit: {
-          type: "number",
-          description: "Number of results to return (1-10, default 5)",
-        },
-      },
-      required: ["query"],
-    },
-    execute: async (args: { query: string; type?: string; limit?: number }) => {
+      "Search the Vibe Index ecosystem (93,600+ skills, plugins, MCP servers) for capabilities. " +
+      "Use when the user needs something you cannot do, or asks about available tools.",
+    parameters: Type.Object({
+      query: Type.String({ description: "Search query (e.g., 'email', 'calendar', 'weather')" }),
+      type: Type.Optional(resourceType()),
+      limit: Type.Optional(Type.Number({ description: `Results count (1-${config.maxResults}, default ${config.maxResults})` })),
+      tags: Type.Optional(Type.Array(Type.String(), { description: "Only results with all of these tags" })),
+      minStars: Type.Optional(Type.Number({ description: "Only results with at least this many GitHub stars" })),
+      official: Type.Optional(Type.Boolean({ description: "Only official resources" })),
+      verified: Type.Optional(Type.Boolean({ description: "Only verified resources" })),
+      publisher: Type.Optional(Type.String({ description: "Only this GitHub owner (glob, e.g. 'acme-*')" })),
+      maxSecurityScore: Type.Optional(Type.Number({ description: "Drop results with a higher Vibe Index security score or a failed Cisco scan" })),
+      scannedOnly: Type.Optional(Type.Boolean({ description: "Drop results that have not been security scanned yet" })),
+      sort: Type.Optional(Type.Union([Type.Literal("relevance"), Type.Literal("stars"), Type.Literal("recency")], {
+        description: `Result order (default: relevance). stars and recency rank the ${MAX_SCAN} most relevant results.`,
+      })),
+      cursor: Type.Optional(Type.String({ description: "nextCursor from a previous call with the same parameters, for more results" })),
+      format: outputFormat(),
+    }),
+    async execute(_id: string, params: SearchFilters & {
+      query: string; type?: string; limit?: number; sort?: SearchSort; cursor?: string; format?: OutputFormat;
+    }): Promise<ToolResult> {
+      const { query, type, limit, sort = "relevance", cursor, format, ...filters } = params;
       try {
-        const result = await client.search(args.query, {
-          type: args.type,
-          limit: args.limit ?? 5,
-        });
-
-        if (!result.success || result.data.length === 0) {
-          return { content: `No results found for "${args.query}" in the Vibe Index ecosystem.` };
+        const page = await searchResources(client, query, { type, limit: clampLimit(limit, config.maxResults), filters, sort, cursor });
+        await flow.recordSearch(query, "vibeclaw_search", page.data);
+        const payload: SearchOutput = {
+          query,
+          total: page.total,
+          results: page.data.map(r => summarizeResource(r)),
+          filters,
+          sort,
+          nextCursor: page.nextCursor,
+          cached: page.cached ?? null,
+        };
+        const refined = hasFilters(filters) || sort !== "relevance";
+        const criteria = [hasFilters(filters) ? `matching ${formatSearchFilters(filters)}` : null, sort !== "relevance" ? `sorted by ${sort}` : null]
+          .filter(Boolean).join(", ");
+        const more = page.nextCursor
+          ? `\nMore results: run vibeclaw_search again with the same parameters and cursor "${page.nextCursor}".`
+          : "";
+        if (page.data.length === 0) {
+          const text = refined
+            ? `No results for "${query}" in Vibe Index ${criteria} (${page.scanned} checked).${more}`
+            : `No results for "${query}" in Vibe Index.`;
+          return respond(format, "vibeclaw_search", text, payload);
         }
-
-        const total = result.pagination?.total ?? result.data.length;
-        let output = `Found ${total} results for "${args.query}" in Vibe Index:\n\n`;
-        output += result.data.map((r, i) => formatResource(r, i + 1)).join("\n");
-        output += `\nUse vibeclaw_install to install any of these skills directly.`;
-
-        return { content: output };
+        let output = formatCacheNote(page.cached);
+        output += refined
+          ? `Showing ${page.data.length} of ${page.total} results for "${query}" in Vibe Index, ${criteria}:\n\n`
+          : `Found ${page.total} results for "${query}" in Vibe Index:\n\n`;
+        output += page.data.map((r, i) => formatResource(r, i + 1)).join("\n");
+        output += `\nUse vibeclaw_install with an ID (or owner/repo/slug) to install.${more}`;
+        return respond(format, "vibeclaw_search", output, payload);
       } catch (err) {
-        return { content: `Error searching Vibe Index: ${(err as Error).message}` };
+        return fail(format, "vibeclaw_search", err);
       }
     },
   };
 }
 
 /**
- * vibeclaw_install — Download and install a skill from GitHub via Vibe Index
+ * vibeclaw_install — Install a skill, MCP server or plugin, or request approval for it
  */
-export function createInstallTool(client: VibeIndexClient, config: VibeClawConfig) {
+export function createInstallTool({ config, flow }: ToolContext) {
   return {
     name: "vibeclaw_install",
+    label: "VibeClaw Install",
     description:
-      "Install a skill directly from GitHub into OpenClaw. Downloads the SKILL.md file and places it " +
-      "in ~/.openclaw/skills/ so OpenClaw loads it automatically. Use after vibeclaw_search finds a skill " +
-      "the user wants. The skill becomes available on the next agent session.",
-    parameters: {
-      type: "object" as const,
-      properties: {
-        query: {
-          type: "string",
-          description: "Skill name or search query to find and install",
-        },
-        force: {
-          type: "boolean",
-          description: "Reinstall even if already installed (default: false)",
-        },
-      },
-      required: ["query"],
-    },
-    execute: async (args: { query: string; force?: boolean }) => {
-      // Search-only mode: block all installs
-      if (config.searchOnly) {
-        return {
-          content:
-            "⛔ Installation is disabled. This VibeClaw instance is configured in search-only mode.\n\n" +
-            "Use vibeclaw_search to find skills, then install them manually.\n" +
-            "To enable installation, set plugins.entries.vibeclaw.config.searchOnly to false.",
-        };
+      "Install a skill, MCP server or plugin from Vibe Index into OpenClaw. Skills are downloaded from GitHub " +
+      "(or straight from a git, tarball or local source) to ~/.openclaw/skills/; MCP servers are added to mcp.servers and plugins are registered in plugins.entries (their package is installed by the user with the command shown). " +
+      "In approval mode it only creates an install request for the user to approve.",
+    parameters: Type.Object({
+      query: Type.Optional(Type.String({
+        description: "Exact owner/repo/slug, or a name/search query. Ambiguous queries return candidates instead of installing.",
+      })),
+      id: Type.Optional(Type.String({ description: "Exact Vibe Index resource id (shown as ID in search results)" })),
+      type: Type.Optional(Type.Union([
+        Type.Literal("skill"), Type.Literal("plugin"), Type.Literal("mcp"), Type.Literal("marketplace"),
+      ], { description: "Resource type to install (default: skill)" })),
+      source: Type.Optional(Type.String({
+        description: "Install a skill straight from a source instead of Vibe Index: github:owner/repo, a git URL " +
+          "(git+https://host/group/repo.git, git@host:group/repo.git), a .tar.gz URL or file:///path. Append #ref for a branch or tag.",
+      })),
+      path: Type.Optional(Type.String({ description: "With source: directory of the skill inside the source" })),
+      name: Type.Optional(Type.String({ description: "With source: skill name to install as (default: directory or repo name)" })),
+      force: Type.Optional(Type.Boolean({ description: "Reinstall if exists" })),
+      format: outputFormat(),
+    }),
+    async execute(_id: string, params: {
+      query?: string; id?: string; type?: VibeResource["resource_type"];
+      source?: string; path?: string; name?: string; force?: boolean; format?: OutputFormat;
+    }): Promise<ToolResult> {
+      const { format, ...install } = params;
+      if (config.searchOnly || config.offline) {
+        const message = config.searchOnly ? "Installation disabled (search-only mode)." : "Installation unavailable in offline mode.";
+        const payload: InstallOutput = { status: "unavailable", name: null, type: null, resource: null, decision: null, message };
+        return respond(format, "vibeclaw_install", message, payload);
       }
-
       try {
-        // Search Vibe Index for the skill
-        const searchResult = await client.search(args.query, { type: "skill", limit: 1 });
-
-        if (!searchResult.success || searchResult.data.length === 0) {
-          return { content: `Could not find skill "${args.query}" in Vibe Index.` };
-        }
-
-        const skill = searchResult.data[0];
-
-        if (!skill.github_owner || !skill.github_repo) {
-          return {
-            content: `Found "${skill.name}" but it has no GitHub repository. Cannot install automatically.\n` +
-              (skill.github_url ? `Manual link: ${skill.github_url}` : ""),
-          };
-        }
+        const gate = config.requireApproval ? (pending: PendingInstall) => flow.requestApproval(install, pending) : undefined;
+        const result = await flow.runInstall(install, { gate });
+        return respond(format, "vibeclaw_install", result.message, result);
+      } catch (err) {
+        return fail(format, "vibeclaw_install", err);
+      }
+    },
+  };
+}
 
-        // Allowlist gate: check if publisher is approved
-        const allowlistBlock = checkAllowlist(skill, config.allowedPublishers);
-        if (allowlistBlock) {
-          return { content: allowlistBlock };
-        }
+/**
+ * The checks an update must pass: the allowlist, the installed skill's identity, and its
+ * Vibe Index entry or (for direct sources) the policy. A blocked update is recorded in the history.
+ */
+async function checkUpdate(
+  { config, flow }: ToolContext,
+  check: SkillUpdateCheck,
+  actor: string,
+): Promise<{ resource: VibeResource | null; blocked: PlanBlock | null }> {
+  const name = check.skillName;
+  const { resource, problems } = await flow.lookupInstalledSkill(name);
+  const blocked = planBlock("allowlist", checkAllowlist(name, check.owner, config.allowedPublishers))
+    ?? (problems.length > 0
+      ? { gate: "source" as const, reason: `BLOCKED: "${name}" identity changed, cannot verify security: ${problems.join("; ")}.` }
+      : resource
+        ? await flow.checkResource("update", resource, check.license)
+        : planBlock("policy", await flow.checkPolicy(sourceSubject("update", check.source, name, check.license))));
+  if (blocked) {
+    await recordEvent({
+      action: "block",
+      name,
+      type: "skill",
+      actor,
+      resourceId: resource?.id,
+      publisher: check.owner,
+      source: formatSkillSource(check.source),
+      commit: check.pin.commit,
+      previousCommit: check.currentCommit ?? null,
+      gate: blocked.gate,
+      attempted: "update",
+      reasons: [blocked.reason],
+      message: blocked.reason.split("\n")[0],
+    });
+  }
+  return { resource, blocked };
+}
 
-        // Security gate: check Vibe Index scan results before installing
-        const securityBlock = checkSecurity(skill);
-        if (securityBlock) {
-          return { content: securityBlock };
-        }
+/** Install the revision checkSkillUpdate found and record the update in the history. */
+async function applyUpdate(
+  { config }: ToolContext,
+  check: SkillUpdateCheck,
+  resource: VibeResource | null,
+  actor: string,
+  requestId?: string,
+): Promise<InstallResult> {
+  const name = check.skillName;
+  const result = await installSkillFromSource(check.source, name, {
+    force: true,
+    pin: check.pin,
+    scanThreshold: config.scanThreshold,
+    resourceId: resource?.id,
+  });
+  if (result.success) {
+    await recordEvent({
+      action: "update",
+      name,
+      type: "skill",
+      actor,
+      resourceId: resource?.id,
+      publisher: check.owner,
+      source: formatSkillSource(check.source),
+      commit: result.commit,
+      previousCommit: check.currentCommit ?? null,
+      security: resource ? formatSecurityBadge(resource) : "no registry data (direct source)",
+      requestId,
+      findings: result.scan?.findings.length,
+      message: `Updated "${name}" (${check.currentCommit?.slice(0, 7) ?? "unpinned"} -> ${check.pin.commit.slice(0, 7)})`,
+    });
+  }
+  return result;
+}
 
-        // Install by downloading SKILL.md from GitHub
-        const result = await installSkillFromGitHub(
-          skill.github_owner,
-          skill.github_repo,
-          skill.slug || skill.name,
-          { force: args.force },
-        );
+/**
+ * An approved update: installs exactly the previewed commit, after checking the update again.
+ */
+async function approveUpdate(ctx: ToolContext, request: InstallRequest, actor: string): Promise<string> {
+  const name = request.name;
+  if ((await getInstalledSkillMeta(name))?.pinned) return `"${name}" was pinned after the request. Nothing was updated.`;
+  const check = await checkSkillUpdate(name);
+  if ("error" in check) return `Cannot update "${name}": ${check.error}`;
+  if (!check.changed || check.pin.commit !== request.pin?.commit) {
+    return `"${name}" no longer updates to ${request.pin?.commit.slice(0, 7)}. Nothing was updated; run vibeclaw_update again.`;
+  }
+  const { resource, blocked } = await checkUpdate(ctx, check, actor);
+  if (blocked) return blocked.reason;
+  const result = await applyUpdate(ctx, check, resource, actor, request.id);
+  return result.success
+    ? `Updated "${name}" to ${check.pin.commit.slice(0, 7)}. Available on next session.\n  ${formatScanSummary(result)}`
+    : `Update failed: ${result.error}${result.scan?.findings.length ? `\n${formatFindings(result.scan.findings)}` : ""}`;
+}
 
-        if (!result.success) {
-          return { content: `Failed to install "${skill.name}": ${result.error}` };
-        }
+/**
+ * vibeclaw_update — Check installed skills for upstream changes and apply them
+ */
+export function createUpdateTool(ctx: ToolContext) {
+  const { config, flow } = ctx;
+  return {
+    name: "vibeclaw_update",
+    label: "VibeClaw Update",
+    description:
+      "Check VibeClaw-installed skills for upstream changes. Shows a diff of SKILL.md and re-runs the " +
+      "security and allowlist checks against fresh Vibe Index data. Only applies updates when apply is true; in approval mode, apply creates a request for each update instead.",
+    parameters: Type.Object({
+      skillName: Type.Optional(Type.String({ description: "Skill to check (default: all installed skills)" })),
+      apply: Type.Optional(Type.Boolean({ description: "Install available updates that pass the checks" })),
+      dryRun: Type.Optional(Type.Boolean({ description: "With apply, report what would be updated without writing anything" })),
+      format: outputFormat(),
+    }),
+    async execute(_id: string, params: { skillName?: string; apply?: boolean; dryRun?: boolean; format?: OutputFormat }): Promise<ToolResult> {
+      const done = (text: string, skills: UpdateEntry[]) => respond(params.format, "vibeclaw_update", text, { skills });
+      if (params.apply && !params.dryRun && config.searchOnly) return refuse(params.format, "vibeclaw_update", "Installation disabled (search-only mode).");
+      if (config.offline) return refuse(params.format, "vibeclaw_update", "Update checks unavailable in offline mode.");
+      try {
+        const skills = params.skillName ? [params.skillName] : await listInstalledSkills();
+        if (skills.length === 0) return done("No VibeClaw-installed skills.", []);
+        const sections: string[] = [];
+        const entries: UpdateEntry[] = [];
+        for (const name of skills) {
+          const pinned = (await getInstalledSkillMeta(name))?.pinned;
+          if (pinned) {
+            sections.push(`${name}: pinned, skipped (vibeclaw_manage unpin to update)`);
+            entries.push({ name, status: "pinned" });
+            continue;
+          }
+          const check = await checkSkillUpdate(name);
+          if ("error" in check) {
+            sections.push(`${name}: cannot check (${check.error})`);
+            entries.push({ name, status: "error", error: check.error });
+            continue;
+          }
+          if (!check.changed) {
+            sections.push(`${name}: up to date`);
+            entries.push({ name, status: "up_to_date" });
+            continue;
+          }
 
-        if (result.alreadyInstalled) {
-          return {
-            content: `"${skill.name}" is already installed at ${result.installPath}.\n` +
-              `Use force: true to reinstall.\n` +
-              `The skill is available in your next agent session.`,
+          const from = check.currentCommit?.slice(0, 7) ?? "unpinned";
+          let section = `${name}: update available (${from} -> ${check.pin.commit.slice(0, 7)})\n`;
+          if (check.added.length) section += `  Added: ${check.added.join(", ")}\n`;
+          if (check.removed.length) section += `  Removed: ${check.removed.join(", ")}\n`;
+          if (check.modified.length) section += `  Modified: ${check.modified.join(", ")}\n`;
+          if (check.skillMdDiff) section += `\n${check.skillMdDiff}\n`;
+          const entry: UpdateEntry = {
+            name,
+            status: "update_available",
+            from: check.currentCommit ?? null,
+            to: check.pin.commit,
+            added: check.added,
+            removed: check.removed,
+            modified: check.modified,
           };
-        }
+          entries.push(entry);
 
-        let output = `✓ Installed "${result.skillName}" successfully!\n\n`;
-        output += `  Location: ${result.installPath}\n`;
-        output += `  Source: ${result.sourceUrl}\n`;
-        output += `  Publisher: ${skill.github_owner}\n`;
-        output += `  Stars: ⭐ ${skill.stars}\n`;
-        output += `  Security: ${formatSecurityBadge(skill)}\n`;
-        if (skill.description) output += `  Description: ${skill.description}\n`;
-        output += `\n**The skill will be available in your next agent session.**\n`;
-        output += `Restart the agent or start a new session to use it.`;
+          const { resource, blocked } = await checkUpdate(ctx, check, "agent");
+          if (blocked) {
+            sections.push(section + `  ${blocked.reason}`);
+            Object.assign(entry, { status: "blocked", decision: { allowed: false, gate: blocked.gate, reasons: [blocked.reason] } });
+            continue;
+          }
+          section += `  Security: ${resource ? formatSecurityBadge(resource) : "no registry data (direct source)"}`;
+          entry.decision = { allowed: true, gate: null, reasons: [] };
 
-        return { content: output };
+          if (!params.apply) { sections.push(section + `\n  Run vibeclaw_update with apply to install.`); continue; }
+          if (params.dryRun) {
+            sections.push(section + `\n  Dry run: would update.`);
+            entry.status = "would_update";
+            continue;
+          }
+          if (config.requireApproval) {
+            const request = await flow.requestChange({
+              action: "update",
+              name,
+              type: "skill",
+              pin: check.pin,
+              resourceId: resource?.id,
+              source: formatSkillSource(check.source),
+              publisher: check.owner,
+              security: resource ? formatSecurityBadge(resource) : "no registry data (direct source)",
+              preview: section,
+            });
+            sections.push(formatPendingRequest(request));
+            Object.assign(entry, { status: "pending_approval", requestId: request.id });
+            continue;
+          }
+          const result = await applyUpdate(ctx, check, resource, "agent");
+          Object.assign(entry, { status: result.success ? "updated" : "failed", findings: result.scan?.findings, error: result.error });
+          sections.push(section + (result.success
+            ? `\n  Updated. Available on next session (vibeclaw_manage rollback restores the previous version).\n  ${formatScanSummary(result)}`
+            : `\n  Update failed: ${result.error}${result.scan?.findings.length ? `\n${formatFindings(result.scan.findings)}` : ""}`));
+        }
+        return done(`Update check (${skills.length} skills):\n\n${sections.join("\n\n")}`, entries);
       } catch (err) {
-        return { content: `Error installing skill: ${(err as Error).message}` };
+        return fail(params.format, "vibeclaw_update", err);
       }
     },
   };
@@ -264,209 +394,652 @@ export function createInstallTool(client: VibeIndexClient, config: VibeClawConfi
 /**
  * vibeclaw_trending — Show trending resources
  */
-export function createTrendingTool(client: VibeIndexClient) {
+export function createTrendingTool({ client, config, flow }: ToolContext) {
   return {
     name: "vibeclaw_trending",
-    description:
-      "Get trending skills, plugins, and MCP servers from the Vibe Index ecosystem. " +
-      "Shows what's gaining the most stars recently. Use when the user asks what's popular or trending.",
-    parameters: {
-      type: "object" as const,
-      properties: {
-        period: {
-          type: "string",
-          enum: ["day", "week", "month"],
-          description: "Time period for trending calculation (default: week)",
-        },
-        type: {
-          type: "string",
-          enum: ["skill", "plugin", "mcp", "marketplace"],
-          description: "Filter by resource type",
-        },
-        limit: {
-          type: "number",
-          description: "Number of results (1-10, default 5)",
-        },
-      },
-    },
-    execute: async (args: { period?: string; type?: string; limit?: number }) => {
+    label: "VibeClaw Trending",
+    description: "Show trending skills/plugins/MCP servers from Vibe Index, with how many stars each gained in the period.",
+    parameters: Type.Object({
+      period: Type.Optional(Type.Union([Type.Literal("day"), Type.Literal("week"), Type.Literal("month")])),
+      type: Type.Optional(resourceType()),
+      limit: Type.Optional(Type.Number({ description: `Results count (1-${config.maxResults}, default ${config.maxResults})` })),
+      format: outputFormat(),
+    }),
+    async execute(_id: string, params: { period?: "day" | "week" | "month"; type?: string; limit?: number; format?: OutputFormat }): Promise<ToolResult> {
       try {
-        const result = await client.trending({
-          period: (args.period as "day" | "week" | "month") ?? "week",
-          type: args.type,
-          limit: args.limit ?? 5,
-        });
-
-        if (!result.success || result.data.length === 0) {
-          return { content: "No trending data available right now." };
-        }
-
-        const periodLabel = args.period === "day" ? "today" : args.period === "month" ? "this month" : "this week";
-        let output = `Trending ${args.type ?? "resources"} ${periodLabel} on Vibe Index:\n\n`;
-
-        for (let i = 0; i < result.data.length; i++) {
-          const r = result.data[i];
-          const growth = r.star_growth ? ` (+${r.star_growth} ⭐)` : "";
+        const period = params.period ?? "week";
+        const result = await client.trending({ period, type: params.type, limit: clampLimit(params.limit, config.maxResults) });
+        const data = result.success ? result.data : [];
+        await flow.recordSearch(`trending (${period})`, "vibeclaw_trending", data);
+        const payload: TrendingOutput = {
+          period,
+          results: data.map(r => ({ ...summarizeResource(r), starGrowth: r.star_growth ?? 0 })),
+          cached: result.cached ?? null,
+        };
+        if (data.length === 0) return respond(params.format, "vibeclaw_trending", "No trending data.", payload);
+        const p = params.period === "day" ? "today" : params.period === "month" ? "this month" : "this week";
+        let output = formatCacheNote(result.cached);
+        output += `Trending on Vibe Index ${p}:\n\n`;
+        data.forEach((r, i) => {
           output += formatResource(r, i + 1);
-          if (growth) output += `   Growth: ${growth}\n`;
+          if (r.star_growth) output += `   Growth: +${r.star_growth} stars ${p}\n`;
           output += "\n";
-        }
-
-        output += `Use vibeclaw_install to install any of these.`;
-        return { content: output };
+        });
+        output += `Use vibeclaw_install with an ID (or owner/repo/slug) to install.`;
+        return respond(params.format, "vibeclaw_trending", output, payload);
       } catch (err) {
-        return { content: `Error fetching trending: ${(err as Error).message}` };
+        return fail(params.format, "vibeclaw_trending", err);
       }
     },
   };
 }
 
 /**
- * vibeclaw_manage — List/uninstall VibeClaw-installed skills
+ * vibeclaw_manage — List, inspect and maintain VibeClaw installs
  */
-export function createManageTool() {
+/** Outcome of a vibeclaw_manage action that can also be carried out by /vibeclaw approve. */
+interface ActionResult {
+  ok: boolean;
+  message: string;
+  extra?: Partial<ManageOutput>;
+}
+
+type Adoption = NonNullable<ManageOutput["adoptions"]>[number];
+type AdoptionCandidate = { resource: VibeResource; match: AdoptionMatch };
+
+/**
+ * Start tracking an unmanaged skill as the Vibe Index resource it matches. With `gate`, an
+ * adoption that passes the checks is handed to it instead; with `commit`, the match must still
+ * be at the commit that was approved.
+ */
+async function adoptUnmanaged(
+  { flow }: ToolContext,
+  skill: UnmanagedSkill,
+  opts: {
+    id?: string;
+    actor: string;
+    requestId?: string;
+    commit?: string;
+    gate?: (skill: UnmanagedSkill, found: AdoptionCandidate, adoption: Adoption) => Promise<ActionResult>;
+  },
+): Promise<ActionResult> {
+  const found = await flow.findAdoptionMatch(skill, opts.id);
+  if ("message" in found) return { ok: false, message: `Cannot adopt "${skill.dirName}": ${found.message}.` };
+  if (opts.commit && found.match.pin.commit !== opts.commit) {
+    return { ok: false, message: `"${skill.dirName}" now matches ${found.match.pin.commit.slice(0, 7)}, not the approved ${opts.commit.slice(0, 7)}. Nothing was adopted.` };
+  }
+  const source = formatSkillSource(found.match.source);
+  const adoption: Adoption = {
+    skill: skill.dirName,
+    resourceId: found.resource.id,
+    source,
+    identical: found.match.identical,
+    blocked: null,
+  };
+  const event = {
+    name: skill.dirName,
+    type: "skill",
+    actor: opts.actor,
+    resourceId: found.resource.id,
+    publisher: found.resource.github_owner,
+    source,
+    commit: found.match.pin.commit,
+    requestId: opts.requestId,
+  };
+  const blocked = await flow.checkResource("adopt", found.resource, skill.license);
+  if (blocked) {
+    await recordEvent({ ...event, action: "block", gate: blocked.gate, attempted: "adopt", reasons: [blocked.reason], message: blocked.reason });
+    return { ok: false, message: blocked.reason, extra: { adoptions: [{ ...adoption, blocked: blocked.reason }] } };
+  }
+  if (opts.gate) return opts.gate(skill, found, adoption);
+  const result = await adoptSkill(skill, found.match, { resourceId: found.resource.id });
+  if (!result.success) return { ok: false, message: `Adopt failed: ${result.error}`, extra: { adoptions: [{ ...adoption, error: result.error }] } };
+  await recordEvent({
+    ...event,
+    action: "adopt",
+    security: formatSecurityBadge(found.resource),
+    message: `Adopted "${skill.dirName}"${found.match.identical ? "" : " (modified locally)"}`,
+  });
+  const state = found.match.identical
+    ? `Pinned at ${found.match.pin.commit.slice(0, 7)} and added to vibeclaw.lock.json.`
+    : "Local changes are kept; vibeclaw_update will show the upstream version as an update.";
+  return {
+    ok: true,
+    message: `Adopted "${skill.dirName}" as ${source} (id ${found.resource.id}).\n  ${state}\n\nNow covered by vibeclaw_audit and vibeclaw_update.`,
+    extra: { adoptions: [adoption] },
+  };
+}
+
+async function rollback(name: string, actor: string, requestId?: string): Promise<ActionResult> {
+  const current = await getInstalledSkillMeta(name);
+  const result = await rollbackSkill(name);
+  if (!result.success) return { ok: false, message: `Rollback failed: ${result.error}` };
+  const from = current?.commit ? ` (was ${current.commit.slice(0, 7)})` : "";
+  await recordEvent({
+    action: "rollback",
+    name: result.skillName,
+    type: "skill",
+    actor,
+    commit: result.commit,
+    previousCommit: current?.commit ?? null,
+    requestId,
+    message: `Rolled back "${result.skillName}" to ${result.commit?.slice(0, 7) ?? "its previous version"}${from}.`,
+  });
+  return {
+    ok: true,
+    message: `Rolled back "${result.skillName}" to ${result.commit?.slice(0, 7) ?? "its previous version"}${from}.\n  Path: ${result.installPath}\n\nRun rollback again to undo. Available on next session.`,
+    extra: { skills: [summarizeInstalledSkill(result.skillName, await getInstalledSkillMeta(result.skillName), true)] },
+  };
+}
+
+/** Install every skill in vibeclaw.lock.json, each through the same checks as vibeclaw_install. */
+async function syncLockfile({ config, flow }: ToolContext, actor: string, requestId?: string): Promise<ActionResult> {
+  const results = await syncFromLockfile({ scanThreshold: config.scanThreshold, check: flow.checkPreparedSkill });
+  const sync = results.map(r => ({
+    skill: r.skillName,
+    status: r.blocked ? "blocked" as const : !r.success ? "failed" as const : r.alreadyInstalled ? "up_to_date" as const : "installed" as const,
+    commit: r.commit ?? null,
+    ...(r.error && { error: r.error }),
+  }));
+  if (results.length === 0) return { ok: true, message: "vibeclaw.lock.json has no skills.", extra: { sync } };
+  for (const r of results.filter(r => r.success && !r.alreadyInstalled)) {
+    await recordEvent({
+      action: "install",
+      name: r.skillName,
+      type: "skill",
+      actor,
+      source: r.sourceUrl,
+      commit: r.commit,
+      requestId,
+      findings: r.scan?.findings.length,
+      message: `Installed "${r.skillName}" from vibeclaw.lock.json`,
+    });
+  }
+  for (const r of results.filter(r => r.blocked)) {
+    await recordEvent({
+      action: "block",
+      name: r.skillName,
+      type: "skill",
+      actor,
+      commit: r.commit,
+      requestId,
+      gate: r.blocked!.gate,
+      attempted: "install",
+      reasons: [r.blocked!.reason],
+      message: r.blocked!.reason,
+    });
+  }
+  const lines = results.map(r => {
+    if (r.blocked) return `  - ${r.skillName}: ${r.blocked.reason}`;
+    if (!r.success) return `  - ${r.skillName}: FAILED (${r.error})`;
+    return `  - ${r.skillName}: ${r.alreadyInstalled ? "up to date" : "installed"} @ ${r.commit?.slice(0, 7)}`;
+  });
+  return { ok: results.every(r => r.success), message: `Lockfile sync (${results.length} skills):\n${lines.join("\n")}`, extra: { sync } };
+}
+
+/**
+ * Carry out a request the user approved with /vibeclaw approve. Every check runs again, and
+ * nothing changes when what was previewed (commit, match, lockfile) is no longer what would be applied.
+ */
+export async function runApprovedRequest(ctx: ToolContext, request: InstallRequest, actor: string): Promise<string> {
+  switch (request.action ?? "install") {
+    case "install": {
+      // Install exactly what was previewed, never whatever a free-text query matches now
+      if (!request.resourceId && !request.params.source) return "The request does not record what it resolved to. Nothing was installed; ask for the install again.";
+      const params = request.resourceId ? { ...request.params, query: undefined, id: request.resourceId } : request.params;
+      const opts = { pin: request.pin, actor, requestId: request.id, source: request.resourceId ? request.source : undefined };
+      return (await ctx.flow.runInstall(params, opts)).message;
+    }
+    case "update":
+      return approveUpdate(ctx, request, actor);
+    case "adopt": {
+      const skill = (await listUnmanagedSkills()).find(candidate => candidate.dirName === request.name);
+      if (!skill) return `"${request.name}" is not an unmanaged skill anymore. Nothing was adopted.`;
+      return (await adoptUnmanaged(ctx, skill, { id: request.resourceId, commit: request.pin?.commit, actor, requestId: request.id })).message;
+    }
+    case "rollback": {
+      const backup = await getSkillBackupMeta(request.name);
+      if (backup?.commit !== request.pin?.commit) return `The previous version of "${request.name}" changed after the request. Nothing was rolled back.`;
+      return (await rollback(request.name, actor, request.id)).message;
+    }
+    case "enable": {
+      const result = await setSkillEnabled(request.name, true);
+      return result.success ? `Enabled "${request.name}". Available on next session.` : `Could not enable "${request.name}": ${result.error}`;
+    }
+    case "sync": {
+      const lock = await readLockfile();
+      if (sha256(JSON.stringify(lock.skills)) !== request.lockfileHash) return "vibeclaw.lock.json changed after the request. Nothing was synced; run sync again.";
+      return (await syncLockfile(ctx, actor, request.id)).message;
+    }
+    default:
+      return `Unknown request action "${request.action}". Nothing was changed.`;
+  }
+}
+
+export function createManageTool(ctx: ToolContext) {
+  const { config, runtimeConfig, flow } = ctx;
   return {
     name: "vibeclaw_manage",
+    label: "VibeClaw Manage",
     description:
-      "List or uninstall skills that were installed via VibeClaw. " +
-      "Use 'list' to see all VibeClaw-installed skills, or 'uninstall' to remove one.",
-    parameters: {
-      type: "object" as const,
-      properties: {
-        action: {
-          type: "string",
-          enum: ["list", "uninstall"],
-          description: "Action to perform",
-        },
-        skillName: {
-          type: "string",
-          description: "Skill name to uninstall (required for uninstall action)",
-        },
-      },
-      required: ["action"],
-    },
-    execute: async (args: { action: string; skillName?: string }) => {
-      if (args.action === "list") {
-        const skills = await listInstalledSkills();
-        if (skills.length === 0) {
-          return { content: "No skills installed via VibeClaw yet." };
+      "List, inspect, verify, pin, disable or uninstall VibeClaw-installed skills, MCP servers and plugins, or sync skills from vibeclaw.lock.json " +
+      "(reinstalls every locked skill at its pinned commit and refuses any file whose hash doesn't match). " +
+      "rollback restores the version of a skill that was installed before its last install or update. " +
+      "In approval mode, adopt, rollback, enable and sync create a request for the user instead of making the change.",
+    parameters: Type.Object({
+      action: Type.Union([
+        Type.Literal("list"), Type.Literal("info"), Type.Literal("verify"), Type.Literal("uninstall"), Type.Literal("sync"),
+        Type.Literal("rollback"), Type.Literal("pin"), Type.Literal("unpin"), Type.Literal("disable"), Type.Literal("enable"),
+        Type.Literal("adopt"), Type.Literal("requests"),
+      ], {
+        description: "info: source, commit, publisher and last audit. verify: check files on disk against their recorded hashes. " +
+          "pin/unpin: exclude a skill from updates. disable/enable: move a skill out of the load path without deleting it. " +
+          "adopt: match skills installed outside VibeClaw to Vibe Index; with skillName and confirm, start tracking one. " +
+          "requests: requests waiting for approval and recent decisions.",
+      }),
+      skillName: Type.Optional(Type.String({ description: "Skill, MCP server or plugin name (for every action but list and sync; verify and adopt default to all skills)" })),
+      detailed: Type.Optional(Type.Boolean({ description: "With list, show a table with status, source, commit, install date and last audit" })),
+      id: Type.Optional(Type.String({ description: "With adopt: Vibe Index id to adopt the skill as, instead of matching by name" })),
+      confirm: Type.Optional(Type.Boolean({ description: "With adopt and skillName: write the tracking metadata" })),
+      format: outputFormat(),
+    }),
+    async execute(_id: string, params: {
+      action: string; skillName?: string; detailed?: boolean; id?: string; confirm?: boolean; format?: OutputFormat;
+    }): Promise<ToolResult> {
+      const done = (ok: boolean, message: string, extra: Partial<ManageOutput> = {}) =>
+        respond(params.format, "vibeclaw_manage", message, { action: params.action, ok, message, ...extra } satisfies ManageOutput);
+      try {
+        if (params.action === "list") {
+          const skills = await listInstalledSkills();
+          const disabled = await listDisabledSkills();
+          const resources = await listInstalledResources();
+          const summaries = [];
+          for (const name of [...skills, ...disabled]) {
+            summaries.push(summarizeInstalledSkill(name, await getInstalledSkillMeta(name), !disabled.includes(name)));
+          }
+          const listed = { skills: summaries, resources };
+          if (skills.length === 0 && disabled.length === 0 && resources.length === 0) return done(true, "No VibeClaw-installed skills.", listed);
+          if (params.detailed) {
+            const rows = ["| Name | Type | Status | Source | Commit | Installed | Last audit |", "|---|---|---|---|---|---|---|"];
+            for (const skill of summaries) {
+              const status = [skill.enabled ? "enabled" : "disabled", ...(skill.pinned ? ["pinned"] : [])].join(", ");
+              const audit = skill.lastAudit ? `${skill.lastAudit.status} (${skill.lastAudit.at.slice(0, 10)})` : "never";
+              rows.push(`| ${skill.name} | skill | ${status} | ${skill.source ?? "?"} | ${skill.commit?.slice(0, 7) ?? "?"} | ${skill.installedAt?.slice(0, 10) ?? "?"} | ${audit} |`);
+            }
+            for (const r of resources) {
+              rows.push(`| ${r.configKey} | ${r.type} | configured | ${r.source} | - | ${r.installedAt.slice(0, 10)} | - |`);
+            }
+            return done(true, `VibeClaw installs (${skills.length + disabled.length + resources.length}):\n\n${rows.join("\n")}`, listed);
+          }
+          let output = `VibeClaw skills (${skills.length}):\n${skills.map(s => `  - ${s}`).join("\n")}`;
+          if (disabled.length > 0) {
+            output += `\n\nDisabled skills (${disabled.length}):\n${disabled.map(s => `  - ${s}`).join("\n")}`;
+          }
+          if (resources.length > 0) {
+            output += `\n\nVibeClaw MCP servers and plugins (${resources.length}):\n${resources.map(r => `  - ${r.configKey} (${r.type.toUpperCase()})`).join("\n")}`;
+          }
+          return done(true, output, listed);
         }
-        let output = `VibeClaw-installed skills (${skills.length}):\n\n`;
-        for (const name of skills) {
-          output += `  - ${name}\n`;
+        if (params.action === "info" && params.skillName) {
+          const meta = await getInstalledSkillMeta(params.skillName);
+          if (meta) {
+            const disabled = (await listDisabledSkills()).includes(params.skillName);
+            const backup = await getSkillBackupMeta(params.skillName);
+            return done(true, formatSkillInfo(params.skillName, meta, disabled, backup), {
+              skills: [summarizeInstalledSkill(params.skillName, meta, !disabled)],
+            });
+          }
+          const resource = (await listInstalledResources()).find(r => r.configKey === params.skillName || r.name === params.skillName);
+          if (!resource) return done(false, `"${params.skillName}" not found.`);
+          const where = resource.type === "mcp" ? "mcp.servers" : "plugins.entries";
+          return done(true, `${resource.name} (${resource.type.toUpperCase()})\n  Config: ${where}.${resource.configKey}\n  Source: ${resource.source}\n  Install command: ${resource.installCommand}\n  Installed: ${resource.installedAt}`, {
+            resources: [resource],
+          });
         }
-        return { content: output };
-      }
-
-      if (args.action === "uninstall") {
-        if (!args.skillName) {
-          return { content: "Please specify which skill to uninstall." };
+        if (params.action === "verify") {
+          const names = params.skillName ? [params.skillName] : [...await listInstalledSkills(), ...await listDisabledSkills()];
+          if (names.length === 0) return done(true, "No VibeClaw-installed skills.", { verification: [] });
+          const lines: string[] = [];
+          const verification = [];
+          for (const name of names) {
+            const result = await verifyInstalledSkill(name);
+            if (!result) { lines.push(`${name}: not found`); continue; }
+            verification.push(result);
+            if (result.untracked && result.checked === 0) { lines.push(`${name}: no hashes recorded (reinstall to track files)`); continue; }
+            if (result.modified.length === 0 && result.missing.length === 0) { lines.push(`${name}: OK (${result.checked} files match)`); continue; }
+            let line = `${name}: MODIFIED`;
+            if (result.modified.length) line += `\n  Changed: ${result.modified.join(", ")}`;
+            if (result.missing.length) line += `\n  Missing: ${result.missing.join(", ")}`;
+            lines.push(line);
+          }
+          const tampered = lines.filter(line => line.includes(": MODIFIED")).length;
+          const footer = tampered ? `\n\n${tampered} skill(s) differ from what was installed. Reinstall with force to restore them.` : "";
+          return done(tampered === 0 && verification.length === names.length, `Verify (${names.length} skills):\n${lines.join("\n")}${footer}`, { verification });
+        }
+        if (params.action === "requests") {
+          const requests = await listInstallRequests();
+          if (requests.length === 0) return done(true, "No install requests.", { requests });
+          const pending = requests.filter(request => request.status === "pending").length;
+          return done(true, `Install requests (${pending} pending):\n${requests.map(formatInstallRequest).join("\n")}`, { requests });
+        }
+        if (params.action === "adopt") {
+          if (config.offline) return done(false, "Adopting skills unavailable in offline mode.");
+          const unmanaged = (await listUnmanagedSkills())
+            .filter(skill => !params.skillName || skill.dirName === params.skillName);
+          if (unmanaged.length === 0) {
+            return params.skillName
+              ? done(false, `"${params.skillName}" is not an unmanaged skill.`)
+              : done(true, "Every skill in the skills directory is already managed by VibeClaw.", { adoptions: [] });
+          }
+          if (params.skillName && params.confirm) {
+            const gate = config.requireApproval
+              ? async (skill: UnmanagedSkill, found: AdoptionCandidate, adoption: Adoption): Promise<ActionResult> => {
+                const request = await flow.requestChange({
+                  action: "adopt",
+                  name: skill.dirName,
+                  type: "skill",
+                  pin: found.match.pin,
+                  resourceId: found.resource.id,
+                  source: formatSkillSource(found.match.source),
+                  publisher: found.resource.github_owner,
+                  security: formatSecurityBadge(found.resource),
+                  preview: flow.formatAdoptionMatch(skill, found),
+                });
+                return { ok: true, message: formatPendingRequest(request), extra: { adoptions: [adoption], requestId: request.id } };
+              }
+              : undefined;
+            const result = await adoptUnmanaged(ctx, unmanaged[0], { id: params.id, actor: "agent", gate });
+            return done(result.ok, result.message, result.extra);
+          }
+          const lines: string[] = [];
+          const adoptions: NonNullable<ManageOutput["adoptions"]> = [];
+          for (const skill of unmanaged) {
+            const found = await flow.findAdoptionMatch(skill, params.id);
+            const blocked = "resource" in found ? await flow.checkResource("adopt", found.resource, skill.license) : null;
+            lines.push(flow.formatAdoptionMatch(skill, found) + (blocked ? `\n  ${blocked.reason}` : ""));
+            adoptions.push("resource" in found
+              ? {
+                skill: skill.dirName,
+                resourceId: found.resource.id,
+                source: formatSkillSource(found.match.source),
+                identical: found.match.identical,
+                blocked: blocked?.reason ?? null,
+              }
+              : { skill: skill.dirName, resourceId: null, source: null, identical: false, blocked: null, error: found.message });
+          }
+          return done(true, `Unmanaged skills (${unmanaged.length}):\n${lines.join("\n")}\n\nTo adopt one, run adopt again with its skillName and confirm (add id to pick a different Vibe Index entry).`, {
+            adoptions,
+          });
+        }
+        if ((params.action === "pin" || params.action === "unpin") && params.skillName) {
+          const meta = await setSkillPinned(params.skillName, params.action === "pin");
+          if (!meta) return done(false, `"${params.skillName}" not found.`);
+          const skills = [summarizeInstalledSkill(params.skillName, meta, !(await listDisabledSkills()).includes(params.skillName))];
+          return done(true, params.action === "pin"
+            ? `Pinned "${params.skillName}" at ${meta.commit?.slice(0, 7) ?? "its installed version"}. vibeclaw_update will skip it.`
+            : `Unpinned "${params.skillName}". vibeclaw_update will check it again.`, { skills });
+        }
+        if ((params.action === "disable" || params.action === "enable") && params.skillName) {
+          if (params.action === "enable" && config.requireApproval && (await listDisabledSkills()).includes(params.skillName)) {
+            const meta = await getInstalledSkillMeta(params.skillName);
+            const request = await flow.requestChange({
+              action: "enable",
+              name: params.skillName,
+              type: "skill",
+              resourceId: meta?.resourceId,
+              source: meta?.source,
+              publisher: meta?.owner ?? null,
+              security: meta?.lastAudit ? `${meta.lastAudit.summary} (last audit ${meta.lastAudit.at.slice(0, 10)})` : "never audited",
+              preview: `Moves "${params.skillName}" back into the skills directory; it loads from the next session.`,
+            });
+            return done(true, formatPendingRequest(request), { requestId: request.id });
+          }
+          const result = await setSkillEnabled(params.skillName, params.action === "enable");
+          if (!result.success) return done(false, `Could not ${params.action} "${params.skillName}": ${result.error}`);
+          return done(true, params.action === "disable"
+            ? `Disabled "${params.skillName}". It won't be loaded from the next session; enable restores it.`
+            : `Enabled "${params.skillName}". Available on next session.`);
+        }
+        if (params.action === "uninstall" && params.skillName) {
+          const meta = await getInstalledSkillMeta(params.skillName);
+          const type = await uninstallSkill(params.skillName) ? "skill"
+            : await uninstallResource(runtimeConfig, "mcp", params.skillName) ? "mcp"
+              : await uninstallResource(runtimeConfig, "plugin", params.skillName) ? "plugin"
+                : null;
+          if (!type) return done(false, `"${params.skillName}" not found.`);
+          await recordEvent({
+            action: "uninstall",
+            name: params.skillName,
+            type,
+            actor: "agent",
+            resourceId: meta?.resourceId,
+            source: meta?.source,
+            commit: meta?.commit,
+            message: `Uninstalled "${params.skillName}".`,
+          });
+          return done(true, `Uninstalled "${params.skillName}".`);
+        }
+        if (params.action === "rollback" && params.skillName) {
+          if (config.requireApproval) {
+            const current = await getInstalledSkillMeta(params.skillName);
+            const backup = await getSkillBackupMeta(params.skillName);
+            if (!backup) return done(false, `Rollback failed: No previous version of "${params.skillName}" to roll back to.`);
+            const request = await flow.requestChange({
+              action: "rollback",
+              name: params.skillName,
+              type: "skill",
+              pin: backup.commit ? { ref: backup.ref ?? "", commit: backup.commit, path: backup.path ?? "" } : undefined,
+              resourceId: backup.resourceId,
+              source: backup.source,
+              publisher: backup.owner ?? null,
+              security: "not re-checked (restores the version installed before)",
+              preview: `Restores ${backup.commit?.slice(0, 7) ?? "the previous version"} (installed ${backup.installedAt}), replacing ${current?.commit?.slice(0, 7) ?? "the current version"}.`,
+            });
+            return done(true, formatPendingRequest(request), { requestId: request.id });
+          }
+          const result = await rollback(params.skillName, "agent");
+          return done(result.ok, result.message, result.extra);
         }
-        const removed = await uninstallSkill(args.skillName);
-        if (removed) {
-          return { content: `✓ Uninstalled "${args.skillName}". It will be removed on next session.` };
+        if (params.action === "sync") {
+          if (config.searchOnly) return done(false, "Installation disabled (search-only mode).");
+          if (config.offline) return done(false, "Lockfile sync unavailable in offline mode.");
+          if (config.requireApproval) {
+            const lock = await readLockfile();
+            const changes = [];
+            for (const [name, entry] of Object.entries(lock.skills)) {
+              if ((await getInstalledSkillMeta(name))?.commit !== entry.commit) changes.push({ name, entry });
+            }
+            if (changes.length > 0) {
+              const publishers = new Set(changes.map(({ entry }) => {
+                const source = parseSkillSource(entry.source);
+                return source ? sourcePublisher(source) ?? "local" : "unknown";
+              }));
+              const request = await flow.requestChange({
+                action: "sync",
+                name: "vibeclaw.lock.json",
+                type: "lockfile",
+                lockfileHash: sha256(JSON.stringify(lock.skills)),
+                publisher: [...publishers].join(", "),
+                security: "checked for each skill when approved",
+                preview: `Installs from vibeclaw.lock.json:\n${changes.map(({ name, entry }) => `  - ${name} @ ${entry.commit.slice(0, 7)} (${entry.source})`).join("\n")}`,
+              });
+              return done(true, formatPendingRequest(request), { requestId: request.id });
+            }
+          }
+          const result = await syncLockfile(ctx, "lockfile");
+          return done(result.ok, result.message, result.extra);
         }
-        return { content: `"${args.skillName}" was not found or was not installed via VibeClaw.` };
+        return done(false, "Specify action and skillName.");
+      } catch (err) {
+        return fail(params.format, "vibeclaw_manage", err);
       }
-
-      return { content: `Unknown action: ${args.action}` };
     },
   };
 }
 
 /**
- * vibeclaw_audit — Re-check installed skills against latest Vibe Index security data.
- * If a skill was safe when installed but has since been flagged, this tool warns the user.
+ * vibeclaw_audit — Re-check installed skills against latest Vibe Index security data
+ * and a local scan of the files on disk.
  */
-export function createAuditTool(client: VibeIndexClient) {
+export function createAuditTool({ config, flow }: ToolContext) {
   return {
     name: "vibeclaw_audit",
+    label: "VibeClaw Audit",
     description:
-      "Audit all VibeClaw-installed skills against the latest Vibe Index security data. " +
-      "Detects skills that were safe when installed but have since been flagged. " +
-      "Use periodically or when concerned about installed skill safety.",
-    parameters: {
-      type: "object" as const,
-      properties: {},
-    },
-    execute: async () => {
+      "Audit VibeClaw-installed skills (disabled ones included) against latest Vibe Index security data and a local scan of the installed files. " +
+      "Also flags skills whose upstream repo moved, was deleted, or changed publisher.",
+    parameters: Type.Object({
+      format: outputFormat(),
+    }),
+    async execute(_id: string, params: { format?: OutputFormat }): Promise<ToolResult> {
       try {
-        const skills = await listInstalledSkills();
-        if (skills.length === 0) {
-          return { content: "No VibeClaw-installed skills to audit." };
-        }
-
-        const results: { name: string; status: string; detail: string }[] = [];
-
+        // Disabled skills are audited too, since enable brings them back without another check
+        const skills = [...await listInstalledSkills(), ...await listDisabledSkills()];
+        const resources = await listInstalledResources();
+        if (skills.length === 0 && resources.length === 0) return respond(params.format, "vibeclaw_audit", "No skills to audit.", { results: [] });
+        const maxScore = await flow.securityThreshold();
+        const lines: string[] = [];
+        const results: AuditEntry[] = [];
         for (const name of skills) {
-          const meta = await getInstalledSkillMeta(name);
-          const searchResult = await client.search(name, { type: "skill", limit: 1 });
-
-          if (!searchResult.success || searchResult.data.length === 0) {
-            results.push({ name, status: "⚠️", detail: "Not found in Vibe Index (may have been removed)" });
-            continue;
-          }
-
-          const skill = searchResult.data[0];
-          const securityIssue = checkSecurity(skill);
-
-          if (securityIssue) {
-            results.push({
+          const scan = await scanInstalledSkill(name);
+          const localIssues = scan ? blockingFindings(scan, config.scanThreshold) : [];
+          const { resource, problems } = await flow.lookupInstalledSkill(name);
+          const issue = resource ? checkSecurity(resource, maxScore) : null;
+          let line: string;
+          if (issue) line = `${name}: FLAGGED`;
+          else if (localIssues.length > 0) line = `${name}: FLAGGED (local scan)`;
+          else if (problems.length > 0) line = `${name}: CHANGED`;
+          else line = `${name}: safe (${resource ? formatSecurityBadge(resource) : "local scan only"})`;
+          const status = issue || localIssues.length > 0 ? "flagged" : problems.length > 0 ? "changed" : "safe";
+          await recordSkillAudit(name, {
+            at: new Date().toISOString(),
+            status,
+            summary: issue?.split("\n")[0] ?? (localIssues.length > 0 ? `${localIssues.length} local scan finding(s)` : problems.join("; ") || line.slice(name.length + 2)),
+          });
+          const entry: AuditEntry = {
+            name,
+            type: "skill",
+            status,
+            reasons: [...(issue ? [issue] : []), ...(localIssues.length > 0 ? [`${localIssues.length} local scan finding(s)`] : []), ...problems],
+            flags: resource?.security_flags ?? [],
+            findings: scan?.findings ?? [],
+            security: resource ? securitySummary(resource) : null,
+          };
+          results.push(entry);
+          if (status !== "safe") {
+            await recordEvent({
+              action: "audit",
               name,
-              status: "⛔ FLAGGED",
-              detail: `Security issue detected since installation.\n` +
-                (skill.security_flags?.length ? `      Flags: ${skill.security_flags.join(", ")}\n` : "") +
-                `      Score: ${skill.security_score ?? "N/A"}\n` +
-                `      Action: Run vibeclaw_manage uninstall "${name}" to remove.`,
+              type: "skill",
+              actor: "agent",
+              resourceId: resource?.id,
+              security: resource ? formatSecurityBadge(resource) : undefined,
+              reasons: entry.reasons,
+              findings: scan?.findings.length,
+              message: line,
             });
-          } else {
-            const badge = formatSecurityBadge(skill);
-            const installedAt = meta?.installedAt ? ` (installed ${meta.installedAt.split("T")[0]})` : "";
-            results.push({ name, status: "✓", detail: `${badge}${installedAt}` });
           }
+          if (issue) line += `\n  - ${issue}`;
+          for (const problem of problems) line += `\n  - ${problem}`;
+          if (scan?.findings.length) line += `\n${formatFindings(scan.findings)}`;
+          lines.push(line);
         }
-
-        const flagged = results.filter(r => r.status.includes("FLAGGED"));
-        const safe = results.filter(r => r.status === "✓");
-        const unknown = results.filter(r => r.status === "⚠️");
-
-        let output = `VibeClaw Security Audit — ${skills.length} skill(s) checked\n\n`;
-
-        if (flagged.length > 0) {
-          output += `🚨 ${flagged.length} skill(s) need attention:\n\n`;
-          for (const r of flagged) {
-            output += `  ${r.status} ${r.name}\n      ${r.detail}\n\n`;
-          }
-        }
-
-        if (safe.length > 0) {
-          output += `✓ ${safe.length} skill(s) are safe:\n`;
-          for (const r of safe) {
-            output += `  ${r.status} ${r.name} — ${r.detail}\n`;
+        for (const r of resources) {
+          const found = await flow.lookupInstalledResource(r);
+          if (!found) {
+            lines.push(`${r.configKey} (${r.type}): not found`);
+            results.push({ name: r.configKey, type: r.type, status: "not_found", reasons: [], flags: [], findings: [], security: null });
+            continue;
           }
-          output += "\n";
-        }
-
-        if (unknown.length > 0) {
-          output += `⚠️ ${unknown.length} skill(s) could not be verified:\n`;
-          for (const r of unknown) {
-            output += `  ${r.status} ${r.name} — ${r.detail}\n`;
+          const issue = checkSecurity(found, maxScore);
+          lines.push(issue ? `${r.configKey} (${r.type}): FLAGGED\n  - ${issue}` : `${r.configKey} (${r.type}): safe (${formatSecurityBadge(found)})`);
+          if (issue) {
+            await recordEvent({
+              action: "audit",
+              name: r.configKey,
+              type: r.type,
+              actor: "agent",
+              resourceId: found.id,
+              security: formatSecurityBadge(found),
+              reasons: [issue],
+              message: `${r.configKey} (${r.type}): FLAGGED`,
+            });
           }
-          output += "\n";
-        }
-
-        if (flagged.length === 0 && unknown.length === 0) {
-          output += "All installed skills passed the security check.";
-        } else if (flagged.length === 0 && unknown.length > 0) {
-          output += `No flagged skills, but ${unknown.length} skill(s) could not be verified.`;
-        } else {
-          output += `⚠️ ${flagged.length} skill(s) should be uninstalled immediately.`;
+          results.push({
+            name: r.configKey,
+            type: r.type,
+            status: issue ? "flagged" : "safe",
+            reasons: issue ? [issue] : [],
+            flags: found.security_flags ?? [],
+            findings: [],
+            security: securitySummary(found),
+          });
         }
+        const flagged = lines.filter(line => line.includes(": FLAGGED")).length;
+        const footer = flagged ? `\n\n${flagged} install(s) flagged. Remove them with vibeclaw_manage uninstall.` : "";
+        return respond(params.format, "vibeclaw_audit", `Audit (${skills.length} skills, ${resources.length} other):\n${lines.join("\n")}${footer}`, { results });
+      } catch (err) {
+        return fail(params.format, "vibeclaw_audit", err);
+      }
+    },
+  };
+}
 
-        return { content: output };
+/**
+ * vibeclaw_history — Search the event log of what VibeClaw searched, installed, blocked and removed
+ */
+export function createHistoryTool(_ctx: ToolContext) {
+  return {
+    name: "vibeclaw_history",
+    label: "VibeClaw History",
+    description:
+      "Show the VibeClaw event log: searches, installs (who installed what, from which search, and the security data it was allowed on), " +
+      "blocked installs and updates with the check that stopped them, updates, rollbacks, adoptions, uninstalls and audit findings.",
+    parameters: Type.Object({
+      skillName: Type.Optional(Type.String({ description: "Only events about this skill, MCP server or plugin" })),
+      action: Type.Optional(Type.Union(HISTORY_ACTIONS.map(action => Type.Literal(action)))),
+      since: Type.Optional(Type.String({ description: "Start of the time range: ISO date/time, or a duration back from now (30m, 12h, 7d, 2w)" })),
+      until: Type.Optional(Type.String({ description: "End of the time range, same forms as since" })),
+      limit: Type.Optional(Type.Number({ description: "Most recent matching events to show (default 50)" })),
+      format: outputFormat(),
+    }),
+    async execute(_id: string, params: {
+      skillName?: string; action?: HistoryAction; since?: string; until?: string; limit?: number; format?: OutputFormat;
+    }): Promise<ToolResult> {
+      const since = params.since ? parseTimeBound(params.since) : undefined;
+      const until = params.until ? parseTimeBound(params.until) : undefined;
+      if (since === null || until === null) {
+        return refuse(params.format, "vibeclaw_history", `Invalid time "${since === null ? params.since : params.until}". Use an ISO date or a duration like 7d.`);
+      }
+      try {
+        const events = await readHistory({
+          name: params.skillName,
+          action: params.action,
+          since,
+          until,
+          limit: params.limit === undefined ? undefined : Math.max(Math.floor(params.limit), 1),
+        });
+        const payload: HistoryOutput = { events };
+        if (events.length === 0) return respond(params.format, "vibeclaw_history", "No matching history events.", payload);
+        return respond(params.format, "vibeclaw_history", `History (${events.length} events, oldest first):\n${events.map(formatHistoryEvent).join("\n")}`, payload);
       } catch (err) {
-        return { content: `Error running audit: ${(err as Error).message}` };
+        return fail(params.format, "vibeclaw_history", err);
       }
     },
   };
 }
+
+/**
+ * Every VibeClaw tool, in the order they are registered.
+ */
+export function createVibeClawTools(ctx: ToolContext) {
+  return [
+    createSearchTool(ctx),
+    createInstallTool(ctx),
+    createUpdateTool(ctx),
+    createTrendingTool(ctx),
+    createManageTool(ctx),
+    createAuditTool(ctx),
+    createHistoryTool(ctx),
+  ];
+}
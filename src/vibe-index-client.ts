@@ -3,8 +3,39 @@
  * Connects to vibeindex.ai to search, discover, and get install info for skills/plugins/MCP servers.
  */
 
+import { ResponseCache } from "./response-cache.js";
+import { errorForStatus, VibeIndexNetworkError } from "./errors.js";
+import type { SkillRegistry, RegistryTrust } from "./registry.js";
+
 const VIBE_INDEX_BASE_URL = "https://vibeindex.ai/api/v1";
 
+/** Sent with every HTTP request VibeClaw makes; the version follows package.json. */
+export const USER_AGENT = "VibeClaw/0.7.1";
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_MAX_RETRIES = 3;
+const RETRY_BASE_MS = 500;
+const RETRY_MAX_MS = 8_000;
+/** Longer Retry-After values are surfaced to the user instead of blocking the tool call. */
+const MAX_RETRY_AFTER_MS = 30_000;
+
+/** How long a cached response is served without revalidation, per endpoint. */
+const CACHE_TTL_MS: Record<string, number> = {
+  "/search": 60 * 60 * 1000,
+  "/trending": 6 * 60 * 60 * 1000,
+  "/install": 24 * 60 * 60 * 1000,
+  "/resources": 60 * 60 * 1000,
+};
+
+/**
+ * Present on a response that came from the cache instead of a live request:
+ * in offline mode, or when Vibe Index was unreachable and a stale copy was used.
+ */
+export interface CacheInfo {
+  ageMs: number;
+  reason: "offline" | "stale-on-error";
+}
+
 export interface VibeResource {
   id: string;
   name: string;
@@ -30,12 +61,28 @@ export interface VibeResource {
   badges?: { official: boolean; verified: boolean; trending: boolean };
   star_info?: { count: number; inherited: boolean };
   computed_install_command?: string;
+  /** Last push to the repo (ISO time), when the index reports it; used to sort by recency. */
+  updated_at?: string | null;
+  /** SPDX license id of the repo, when known. */
+  license?: string | null;
+  /** Skills and MCP servers this resource needs to work, when the index knows them. */
+  dependencies?: Array<{ type: "skill" | "mcp"; id?: string; name: string }>;
+  /** Registry the result came from and its trust level (set when several registries are merged). */
+  registry?: string;
+  trust?: RegistryTrust;
 }
 
 export interface VibeSearchResult {
   success: boolean;
   data: VibeResource[];
   pagination?: { limit: number; offset: number; total: number };
+  cached?: CacheInfo;
+}
+
+export interface VibeResourceResult {
+  success: boolean;
+  data: VibeResource;
+  cached?: CacheInfo;
 }
 
 export interface VibeInstallResult {
@@ -47,42 +94,137 @@ export interface VibeInstallResult {
     install_command: string;
     alternatives: Array<{ name: string; type: string }>;
   };
+  cached?: CacheInfo;
 }
 
 export interface VibeTrendingResult {
   success: boolean;
   data: Array<VibeResource & { star_growth?: number; growth_percent?: number }>;
+  cached?: CacheInfo;
 }
 
-export class VibeIndexClient {
+/** A response whose body has already been read (successful responses only). */
+interface ApiResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  headers: Headers;
+  text: string;
+}
+
+export class VibeIndexClient implements SkillRegistry {
   private apiKey: string | undefined;
   private baseUrl: string;
+  private cache: ResponseCache | null;
+  private offline: boolean;
+  private timeoutMs: number;
+  private maxRetries: number;
 
-  constructor(apiKey?: string, baseUrl?: string) {
+  constructor(apiKey?: string, baseUrl?: string, opts?: {
+    cache?: ResponseCache;
+    offline?: boolean;
+    timeoutMs?: number;
+    maxRetries?: number;
+  }) {
     this.apiKey = apiKey;
     this.baseUrl = baseUrl ?? VIBE_INDEX_BASE_URL;
+    this.cache = opts?.cache ?? null;
+    this.offline = opts?.offline ?? false;
+    this.timeoutMs = opts?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxRetries = opts?.maxRetries ?? DEFAULT_MAX_RETRIES;
   }
 
-  private async fetch<T>(endpoint: string, params: Record<string, string> = {}): Promise<T> {
+  private async fetch<T extends { cached?: CacheInfo }>(endpoint: string, params: Record<string, string> = {}): Promise<T> {
     const url = new URL(`${this.baseUrl}${endpoint}`);
     for (const [key, value] of Object.entries(params)) {
       if (value) url.searchParams.set(key, value);
     }
+    const key = url.toString();
+    const entry = this.cache ? await this.cache.get<T>(key) : null;
+    const ageMs = entry ? Date.now() - entry.storedAt : 0;
+
+    if (this.offline) {
+      if (!entry) throw new Error(`Offline mode: no cached Vibe Index response for ${endpoint}.`);
+      return { ...entry.body, cached: { ageMs, reason: "offline" } };
+    }
+
+    const ttl = CACHE_TTL_MS[`/${endpoint.split("/")[1]}`] ?? 0;
+    if (entry && ageMs < ttl) return entry.body;
 
     const headers: Record<string, string> = {
-      "User-Agent": "VibeClaw/0.4.0",
+      "User-Agent": USER_AGENT,
     };
     if (this.apiKey) {
       headers["X-API-Key"] = this.apiKey;
     }
+    if (entry?.etag) {
+      headers["If-None-Match"] = entry.etag;
+    }
 
-    const response = await globalThis.fetch(url.toString(), { headers });
+    // Resource lookups back the security checks at install and audit time, so they never
+    // fall back to a stale copy: an outage must not pass for a clean result
+    const stale = entry && !endpoint.startsWith("/resources/") ? entry : null;
+    let response: ApiResponse;
+    try {
+      response = await this.request(key, headers);
+    } catch (err) {
+      // Network failure: serve the stale copy if we have one
+      if (stale) return { ...stale.body, cached: { ageMs, reason: "stale-on-error" } };
+      throw err;
+    }
+
+    if (response.status === 304 && entry) {
+      await this.cache!.touch(key, entry);
+      return entry.body;
+    }
 
     if (!response.ok) {
-      throw new Error(`Vibe Index API error: ${response.status} ${response.statusText}`);
+      if (stale && (response.status >= 500 || response.status === 429)) {
+        return { ...stale.body, cached: { ageMs, reason: "stale-on-error" } };
+      }
+      throw errorForStatus(response.status, response.statusText, endpoint, parseRetryAfter(response.headers.get("retry-after")));
     }
 
-    return response.json() as Promise<T>;
+    const body = JSON.parse(response.text) as T;
+    await this.cache?.set(key, body, response.headers.get("etag") ?? undefined);
+    return body;
+  }
+
+  /**
+   * Send a GET with a per-attempt timeout that also covers reading the body, so a server that
+   * stalls after the headers can't hang the call. Network errors, timeouts and 5xx responses are
+   * retried with jittered exponential backoff; 429 waits for Retry-After when it is short enough.
+   * Returns the final response, whatever its status; only successful bodies are read.
+   */
+  private async request(url: string, headers: Record<string, string>): Promise<ApiResponse> {
+    for (let attempt = 0; ; attempt++) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+      try {
+        const response = await globalThis.fetch(url, { headers, signal: controller.signal });
+        const wait = attempt < this.maxRetries ? retryDelay(response, attempt) : null;
+        if (wait !== null) {
+          // Release the connection before waiting
+          await response.body?.cancel().catch(() => {});
+          await sleep(wait);
+          continue;
+        }
+        let text = "";
+        if (response.ok) text = await response.text();
+        else await response.body?.cancel().catch(() => {});
+        return { ok: response.ok, status: response.status, statusText: response.statusText, headers: response.headers, text };
+      } catch (err) {
+        if (attempt < this.maxRetries) {
+          await sleep(backoffDelay(attempt));
+          continue;
+        }
+        throw controller.signal.aborted
+          ? new VibeIndexNetworkError(`Request timed out after ${this.timeoutMs}ms`, true)
+          : new VibeIndexNetworkError((err as Error).message, false);
+      } finally {
+        clearTimeout(timer);
+      }
+    }
   }
 
   /**
@@ -101,6 +243,13 @@ export class VibeIndexClient {
     });
   }
 
+  /**
+   * Get a single resource by its Vibe Index id
+   */
+  async getResource(id: string): Promise<VibeResourceResult> {
+    return this.fetch<VibeResourceResult>(`/resources/${encodeURIComponent(id)}`);
+  }
+
   /**
    * Get install command for a specific resource
    */
@@ -126,3 +275,37 @@ export class VibeIndexClient {
     });
   }
 }
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Full-jitter exponential backoff: a random delay up to base * 2^attempt, capped.
+ */
+function backoffDelay(attempt: number): number {
+  return Math.random() * Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** attempt);
+}
+
+/**
+ * How long to wait before retrying a response, or null when it shouldn't be retried: 5xx back
+ * off, 429 waits for Retry-After unless that is longer than MAX_RETRY_AFTER_MS.
+ */
+function retryDelay(response: Response, attempt: number): number | null {
+  if (response.status === 429) {
+    const wait = parseRetryAfter(response.headers.get("retry-after")) ?? backoffDelay(attempt);
+    return wait <= MAX_RETRY_AFTER_MS ? wait : null;
+  }
+  return response.status >= 500 ? backoffDelay(attempt) : null;
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds.
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,59 @@
+import { promises as fs } from "node:fs";
+import { describe, it, expect, beforeEach } from "vitest";
+import { createInstallRequest, listInstallRequests, decideInstallRequest, recordRequestOutcome } from "../src/approvals.js";
+import { APPROVALS_PATH } from "../src/paths.js";
+
+const fields = {
+  params: { query: "weather" },
+  name: "weather",
+  type: "skill",
+  publisher: "acme",
+  security: "Pre-scanned (no issues)",
+  preview: "---\nname: weather\n---",
+  dependencies: [],
+};
+
+beforeEach(async () => {
+  await fs.rm(APPROVALS_PATH, { force: true });
+});
+
+describe("install requests", () => {
+  it("returns the pending request instead of creating a duplicate", async () => {
+    const first = await createInstallRequest(fields, 60_000);
+    const second = await createInstallRequest(fields, 60_000);
+    expect(second.id).toBe(first.id);
+    expect(await listInstallRequests()).toHaveLength(1);
+  });
+
+  it("keeps requests for the same name from different resources apart", async () => {
+    const mcp = { ...fields, type: "mcp", params: { id: "mcp-1" } };
+    const first = await createInstallRequest({ ...mcp, resourceId: "mcp-1", source: "vibeindex:mcp-1" }, 60_000);
+    const other = await createInstallRequest({ ...mcp, resourceId: "mcp-2", source: "vibeindex:mcp-2" }, 60_000);
+    expect(other.id).not.toBe(first.id);
+    expect(other.resourceId).toBe("mcp-2");
+    const again = await createInstallRequest({ ...mcp, resourceId: "mcp-1", source: "vibeindex:mcp-1" }, 60_000);
+    expect(again.id).toBe(first.id);
+  });
+
+  it("records decisions and outcomes", async () => {
+    const request = await createInstallRequest(fields, 60_000);
+    const decided = await decideInstallRequest(request.id, "approved", "user-1");
+    expect(decided).toMatchObject({ request: { status: "approved", decidedBy: "user-1" } });
+    await recordRequestOutcome(request.id, `Installed "weather"!`);
+    expect(await listInstallRequests()).toMatchObject([{ id: request.id, outcome: `Installed "weather"!` }]);
+    expect(await decideInstallRequest(request.id, "denied", "user-1")).toEqual({ error: `Install request ${request.id} is already approved.` });
+  });
+
+  it("expires requests past their ttl", async () => {
+    const request = await createInstallRequest(fields, -1);
+    expect(await decideInstallRequest(request.id, "approved", "user-1")).toEqual({ error: `Install request ${request.id} is already expired.` });
+    expect(await decideInstallRequest("nope", "approved", "user-1")).toEqual({ error: `No install request "nope".` });
+  });
+
+  it("refuses to write over an approvals file it can't parse", async () => {
+    await fs.writeFile(APPROVALS_PATH, `{"requests": [{"id": "abc",`);
+    await expect(createInstallRequest(fields, 60_000)).rejects.toThrow(/is not valid JSON/);
+    await expect(listInstallRequests()).rejects.toThrow(/is not valid JSON/);
+    expect(await fs.readFile(APPROVALS_PATH, "utf-8")).toBe(`{"requests": [{"id": "abc",`);
+  });
+});
@@ -0,0 +1,117 @@
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { vi } from "vitest";
+import type { VibeResource } from "../src/vibe-index-client.js";
+import type { SkillRegistry } from "../src/registry.js";
+import type { ConfigIO } from "../src/resource-installer.js";
+import type { VibeClawConfig } from "../src/install-flow.js";
+import { createToolContext } from "../src/tools.js";
+import type { ToolContext, ToolResult } from "../src/tools.js";
+import { POLICY_PATH } from "../src/paths.js";
+import { VibeIndexNotFoundError } from "../src/errors.js";
+
+export function resource(overrides: Partial<VibeResource> = {}): VibeResource {
+  return {
+    id: "res-1",
+    name: "weather",
+    slug: "weather",
+    description: "Look up the weather",
+    description_ko: null,
+    resource_type: "skill",
+    github_owner: "acme",
+    github_repo: "skills",
+    github_url: "https://github.com/acme/skills",
+    stars: 120,
+    tags: [],
+    is_official: false,
+    is_verified: false,
+    security_score: 0,
+    security_flags: null,
+    cisco_scan_result: null,
+    ...overrides,
+  };
+}
+
+/**
+ * A registry serving a fixed list of resources: search matches name, slug and description.
+ */
+export function mockClient(resources: VibeResource[]) {
+  const client = {
+    search: vi.fn(async (query: string, opts?: { type?: string; limit?: number; offset?: number }) => {
+      const q = query.toLowerCase();
+      const limit = opts?.limit ?? 10;
+      const offset = opts?.offset ?? 0;
+      const hits = resources
+        .filter(r => !opts?.type || r.resource_type === opts.type)
+        .filter(r => [r.name, r.slug, r.description ?? ""].some(field => field.toLowerCase().includes(q)));
+      return { success: true, data: hits.slice(offset, offset + limit), pagination: { limit, offset, total: hits.length } };
+    }),
+    trending: vi.fn(async (opts?: { type?: string; limit?: number }) => ({
+      success: true,
+      data: resources
+        .filter(r => !opts?.type || r.resource_type === opts.type)
+        .slice(0, opts?.limit ?? 10)
+        .map((r, i) => ({ ...r, star_growth: 10 * (i + 1) })),
+    })),
+    getResource: vi.fn(async (id: string) => {
+      const found = resources.find(r => r.id === id);
+      if (!found) throw new VibeIndexNotFoundError(`/resources/${id}`);
+      return { success: true, data: found };
+    }),
+    getInstallInfo: vi.fn(async (name: string, type?: string) => ({
+      success: true,
+      data: { name, type: type ?? "skill", github_url: "", install_command: resources.find(r => r.name === name)?.computed_install_command ?? "", alternatives: [] },
+    })),
+  };
+  return client satisfies SkillRegistry;
+}
+
+/** OpenClaw config kept in memory. */
+export function memoryConfig(initial: Record<string, unknown> = {}) {
+  let cfg = initial;
+  return {
+    loadConfig: () => cfg,
+    writeConfigFile: async (next: Record<string, unknown>) => { cfg = next; },
+  } as unknown as ConfigIO;
+}
+
+export function toolContext(client: SkillRegistry, config: Partial<VibeClawConfig> = {}, runtimeConfig = memoryConfig()): ToolContext {
+  return createToolContext({
+    client,
+    config: {
+      searchOnly: false,
+      offline: false,
+      allowedPublishers: null,
+      policyPath: POLICY_PATH,
+      scanThreshold: "high",
+      maxResults: 5,
+      requireApproval: false,
+      approvalTtlMs: 60 * 60_000,
+      ...config,
+    },
+    runtimeConfig,
+  });
+}
+
+export function text(result: ToolResult): string {
+  return result.content.map(block => block.text).join("\n");
+}
+
+/**
+ * Write a skill directory outside the state dir, for installs from a file:// source.
+ */
+export async function writeSkillSource(name: string, files: Record<string, string> = {}): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "vibeclaw-source-"));
+  const skillDir = path.join(dir, name);
+  await fs.mkdir(skillDir);
+  const all = {
+    "SKILL.md": `---\nname: ${name}\ndescription: Test skill ${name}\n---\n\n# ${name}\n`,
+    ...files,
+  };
+  for (const [file, content] of Object.entries(all)) {
+    await fs.mkdir(path.dirname(path.join(skillDir, file)), { recursive: true });
+    await fs.writeFile(path.join(skillDir, file), content);
+  }
+  return skillDir;
+}
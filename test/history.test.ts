@@ -0,0 +1,36 @@
+import { promises as fs } from "node:fs";
+import { describe, it, expect, beforeEach } from "vitest";
+import { recordEvent, readHistory, parseTimeBound } from "../src/history.js";
+import { HISTORY_PATH } from "../src/paths.js";
+
+beforeEach(async () => {
+  await fs.rm(HISTORY_PATH, { force: true });
+});
+
+describe("readHistory", () => {
+  it("filters by name, action and time, skipping broken lines", async () => {
+    await recordEvent({ action: "install", name: "Weather", actor: "agent", message: "Installed" });
+    await fs.appendFile(HISTORY_PATH, "{ cut short\n");
+    await recordEvent({ action: "uninstall", name: "weather", actor: "agent", message: "Uninstalled" });
+    await recordEvent({ action: "install", name: "notes", actor: "lockfile", message: "Installed" });
+
+    expect((await readHistory({ name: "weather" })).map(event => event.action)).toEqual(["install", "uninstall"]);
+    expect((await readHistory({ action: "install" })).map(event => event.name)).toEqual(["Weather", "notes"]);
+    expect(await readHistory({ since: new Date(Date.now() + 60_000) })).toEqual([]);
+    expect((await readHistory({ limit: 1 })).map(event => event.name)).toEqual(["notes"]);
+  });
+
+  it("returns nothing before the first event", async () => {
+    expect(await readHistory()).toEqual([]);
+  });
+});
+
+describe("parseTimeBound", () => {
+  it("accepts durations and ISO dates", () => {
+    const now = Date.parse("2026-01-08T00:00:00Z");
+    expect(parseTimeBound("7d", now)?.toISOString()).toBe("2026-01-01T00:00:00.000Z");
+    expect(parseTimeBound("90m", now)?.toISOString()).toBe("2026-01-07T22:30:00.000Z");
+    expect(parseTimeBound("2026-01-02")?.toISOString()).toBe("2026-01-02T00:00:00.000Z");
+    expect(parseTimeBound("soon")).toBeNull();
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from "vitest";
+import { buildInstallPlan, executeInstallPlan } from "../src/install-plan.js";
+import type { PlanHooks, PlanExecutors } from "../src/install-plan.js";
+import type { VibeResource } from "../src/vibe-index-client.js";
+import { resource } from "./helpers.js";
+
+/** Hooks over a fixed set of resources; dependencies come from the registry metadata. */
+function hooks(resources: VibeResource[], overrides: Partial<PlanHooks> = {}): PlanHooks {
+  return {
+    async resolve(spec, type) {
+      const found = resources.find(r => (r.id === spec || r.slug === spec) && r.resource_type === type);
+      return found ? { resource: found } : { message: `${spec} not found` };
+    },
+    async check() { return null; },
+    async isInstalled() { return false; },
+    async prepare(r) { return { success: false, skillName: r.name, error: "no network in tests" }; },
+    ...overrides,
+  };
+}
+
+const mcp = (slug: string, deps: VibeResource["dependencies"] = []) =>
+  resource({ id: slug, name: slug, slug, resource_type: "mcp", dependencies: deps });
+
+describe("buildInstallPlan", () => {
+  it("orders dependencies before the items that need them", async () => {
+    const all = [mcp("a", [{ type: "mcp", name: "b" }, { type: "mcp", name: "c" }]), mcp("b", [{ type: "mcp", name: "c" }]), mcp("c")];
+    const plan = await buildInstallPlan({ type: "mcp", name: "a", resource: all[0] }, hooks(all));
+    expect(plan.errors).toEqual([]);
+    expect(plan.items.map(item => item.name)).toEqual(["c", "b", "a"]);
+    expect(plan.items.map(item => item.requiredBy)).toEqual(["b", "a", null]);
+  });
+
+  it("reports cycles and unresolvable dependencies", async () => {
+    const all = [mcp("a", [{ type: "mcp", name: "b" }, { type: "mcp", name: "ghost" }]), mcp("b", [{ type: "mcp", name: "a" }])];
+    const plan = await buildInstallPlan({ type: "mcp", name: "a", resource: all[0] }, hooks(all));
+    expect(plan.errors).toEqual([
+      "Dependency cycle: a -> b -> a",
+      `a requires mcp "ghost": ghost not found`,
+    ]);
+  });
+
+  it("leaves installed dependencies alone and records blocked items", async () => {
+    const all = [mcp("a", [{ type: "mcp", name: "b" }, { type: "mcp", name: "c" }]), mcp("b"), mcp("c")];
+    const plan = await buildInstallPlan({ type: "mcp", name: "a", resource: all[0] }, hooks(all, {
+      async isInstalled(_type, r) { return r.slug === "b"; },
+      async check(item) { return item.name === "c" ? { gate: "policy", reason: "BLOCKED: c" } : null; },
+    }));
+    expect(plan.items.find(item => item.name === "b")?.installed).toBe(true);
+    expect(plan.items.find(item => item.name === "c")?.blocked).toEqual({ gate: "policy", reason: "BLOCKED: c" });
+  });
+});
+
+describe("executeInstallPlan", () => {
+  function executors(failOn?: string): PlanExecutors & { undoMcp: ReturnType<typeof vi.fn> } {
+    return {
+      installSkill: vi.fn(),
+      installMcp: vi.fn(async (r: VibeResource) => r.slug === failOn
+        ? { ok: false, text: `cannot install ${r.slug}` }
+        : { ok: true, text: `Installed ${r.slug}`, configKey: r.slug }),
+      undoSkill: vi.fn(),
+      undoMcp: vi.fn(async () => true),
+    };
+  }
+
+  it("installs every item in order", async () => {
+    const all = [mcp("a", [{ type: "mcp", name: "b" }]), mcp("b")];
+    const plan = await buildInstallPlan({ type: "mcp", name: "a", resource: all[0] }, hooks(all));
+    const outcome = await executeInstallPlan(plan, executors());
+    expect(outcome.success).toBe(true);
+    expect(outcome.lines).toEqual(["  - b: Installed b", "  - a: Installed a"]);
+    expect(outcome.rootText).toBe("Installed a");
+  });
+
+  it("takes back earlier items when one fails", async () => {
+    const all = [mcp("a", [{ type: "mcp", name: "b" }, { type: "mcp", name: "c" }]), mcp("b"), mcp("c")];
+    const plan = await buildInstallPlan({ type: "mcp", name: "a", resource: all[0] }, hooks(all));
+    const exec = executors("a");
+    const outcome = await executeInstallPlan(plan, exec);
+    expect(outcome.success).toBe(false);
+    expect(outcome.rolledBack).toEqual(["c", "b"]);
+    expect(exec.undoMcp.mock.calls.map(([result]) => result.configKey)).toEqual(["c", "b"]);
+    expect(outcome.rootText).toBe("cannot install a");
+  });
+
+  it("leaves items that were already installed alone when taking back", async () => {
+    const all = [mcp("a", [{ type: "mcp", name: "b" }]), mcp("b")];
+    const plan = await buildInstallPlan({ type: "mcp", name: "a", resource: all[0] }, hooks(all));
+    const exec = executors("a");
+    exec.installMcp = vi.fn(async (r: VibeResource) => r.slug === "a"
+      ? { ok: false, text: "cannot install a" }
+      : { ok: true, text: "already installed", configKey: r.slug, alreadyInstalled: true });
+    const outcome = await executeInstallPlan(plan, exec);
+    expect(outcome.rolledBack).toEqual([]);
+    expect(exec.undoMcp).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,66 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { describe, it, expect } from "vitest";
+import { matchesGlob, loadPolicy, evaluatePolicy } from "../src/policy.js";
+import type { PolicySubject } from "../src/policy.js";
+import { CONFIG_DIR } from "../src/paths.js";
+import { resource } from "./helpers.js";
+
+function subject(overrides: Partial<PolicySubject> = {}): PolicySubject {
+  const r = resource();
+  return { action: "install", name: r.name, type: "skill", publisher: "acme", repo: "acme/skills", resource: r, ...overrides };
+}
+
+describe("matchesGlob", () => {
+  it("matches * and ? case-insensitively", () => {
+    expect(matchesGlob("acme-*", "ACME-labs")).toBe(true);
+    expect(matchesGlob("ac?e", "acme")).toBe(true);
+    expect(matchesGlob("acme", "acme-labs")).toBe(false);
+    expect(matchesGlob("a.b", "axb")).toBe(false);
+  });
+});
+
+describe("loadPolicy", () => {
+  it("treats a missing file as an empty policy", async () => {
+    expect(await loadPolicy(path.join(CONFIG_DIR, "missing.json"))).toEqual({ policy: {} });
+  });
+
+  it("rejects invalid JSON and invalid rules", async () => {
+    const file = path.join(CONFIG_DIR, "policy.json");
+    await fs.writeFile(file, "{ nope");
+    expect(await loadPolicy(file)).toMatchObject({ error: expect.stringContaining("is not valid JSON") });
+    await fs.writeFile(file, JSON.stringify({ minStars: "10" }));
+    expect(await loadPolicy(file)).toEqual({ error: `${file}: minStars must be a number` });
+    await fs.writeFile(file, JSON.stringify({ requireBadges: ["gold"] }));
+    expect(await loadPolicy(file)).toMatchObject({ error: expect.stringContaining(`unknown badge "gold"`) });
+  });
+});
+
+describe("evaluatePolicy", () => {
+  it("allows everything under an empty policy", () => {
+    expect(evaluatePolicy({}, subject())).toBeNull();
+  });
+
+  it("names the rule that denied the subject", () => {
+    expect(evaluatePolicy({ allowedTypes: ["mcp"] }, subject())?.rule).toBe("allowedTypes");
+    expect(evaluatePolicy({ publishers: { deny: ["ac*"] } }, subject())?.rule).toBe("publishers.deny");
+    expect(evaluatePolicy({ publishers: { allow: ["other"] } }, subject())?.rule).toBe("publishers.allow");
+    expect(evaluatePolicy({ blockedRepos: ["acme/*"] }, subject())?.rule).toBe("blockedRepos");
+    expect(evaluatePolicy({ minStars: 1000 }, subject())?.rule).toBe("minStars");
+    expect(evaluatePolicy({ requireBadges: ["official"] }, subject())?.rule).toBe("requireBadges");
+    expect(evaluatePolicy({ maxSecurityScore: 5 }, subject({ resource: resource({ security_score: 10 }) }))?.rule).toBe("maxSecurityScore");
+    expect(evaluatePolicy({ licenses: ["MIT"] }, subject({ license: "GPL-3.0" }))?.rule).toBe("licenses");
+  });
+
+  it("denies rules that need registry data for direct sources", () => {
+    const direct = subject({ resource: null });
+    expect(evaluatePolicy({ minStars: 1 }, direct)?.reason).toBe(`"weather" has no registry data to check`);
+    expect(evaluatePolicy({ allowPendingScans: false }, direct)?.rule).toBe("allowPendingScans");
+  });
+
+  it("prefers the SKILL.md license over the registry one", () => {
+    const r = resource({ license: "GPL-3.0" });
+    expect(evaluatePolicy({ licenses: ["mit"] }, subject({ resource: r, license: "MIT" }))).toBeNull();
+    expect(evaluatePolicy({ licenses: ["MIT"] }, subject({ resource: r }))?.rule).toBe("licenses");
+  });
+});
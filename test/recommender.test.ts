@@ -0,0 +1,73 @@
+import { promises as fs } from "node:fs";
+import { describe, it, expect, beforeEach } from "vitest";
+import { AutoRecommender, detectCapabilityGap, detectMissingCommand, detectIntegrations } from "../src/recommender.js";
+import { RECOMMENDATIONS_PATH } from "../src/paths.js";
+import { resource, mockClient } from "./helpers.js";
+
+const user = (content: string) => ({ role: "user", content });
+const reply = (content: string) => ({ role: "assistant", content: [{ type: "text", text: content }] });
+const toolResult = (toolName: string, text: string, isError = false) => ({ role: "toolResult", toolName, isError, content: [{ type: "text", text }] });
+
+beforeEach(async () => {
+  await fs.rm(RECOMMENDATIONS_PATH, { force: true });
+});
+
+describe("detectMissingCommand", () => {
+  it("reads the command from common shells", () => {
+    expect(detectMissingCommand("bash: line 1: ffmpeg: command not found")).toBe("ffmpeg");
+    expect(detectMissingCommand("sh: 1: pandoc: not found")).toBe("pandoc");
+    expect(detectMissingCommand("zsh: command not found: jq")).toBe("jq");
+    expect(detectMissingCommand("'gh' is not recognized as an internal or external command")).toBe("gh");
+    expect(detectMissingCommand("Error: spawn yt-dlp ENOENT")).toBe("yt-dlp");
+    expect(detectMissingCommand("bash: cd: /nope: No such file or directory")).toBeNull();
+  });
+});
+
+describe("detectCapabilityGap", () => {
+  it("reports a missing command before a generic failure", () => {
+    const gap = detectCapabilityGap([user("convert this video to mp4"), toolResult("exec", "bash: ffmpeg: command not found", true)]);
+    expect(gap).toEqual({ query: "ffmpeg", reason: `command "ffmpeg" not found` });
+  });
+
+  it("reports integrations the request named that nothing handled", () => {
+    expect(detectIntegrations("post this to Slack and add a Google  Calendar event")).toEqual(["slack", "google calendar"]);
+    expect(detectCapabilityGap([user("post the summary to slack"), reply("Here is the summary.")]))
+      .toEqual({ query: "slack", reason: `"slack" was requested but no tool for it ran` });
+    expect(detectCapabilityGap([user("post the summary to slack"), toolResult("slack_post", "ok"), reply("Posted.")])).toBeNull();
+    expect(detectCapabilityGap([user("post the summary to slack"), reply("Posted.")], ["slack-notify"])).toBeNull();
+  });
+
+  it("stays quiet when the agent searched VibeClaw itself", () => {
+    expect(detectCapabilityGap([user("post to slack"), toolResult("vibeclaw_search", "Found 3 results")])).toBeNull();
+  });
+});
+
+describe("AutoRecommender", () => {
+  const catalog = [
+    resource({ id: "ff-1", name: "ffmpeg-tools", slug: "ffmpeg-tools", description: "ffmpeg video conversion" }),
+    resource({ id: "ff-2", name: "ffmpeg-lite", slug: "ffmpeg-lite", description: "ffmpeg wrapper" }),
+    resource({ id: "sl-1", name: "slack", slug: "slack", description: "Slack messages" }),
+  ];
+
+  it("searches once per gap and session and caps suggestions per session", async () => {
+    const client = mockClient(catalog);
+    const recommender = new AutoRecommender(client, { maxResults: 5, maxPerSession: 2 });
+    await recommender.onToolCall("exec", { content: [{ type: "text", text: "bash: ffmpeg: command not found" }] }, undefined, "s1");
+    await recommender.onToolCall("exec", undefined, "zsh: command not found: ffmpeg", "s1");
+    expect(client.search).toHaveBeenCalledTimes(1);
+    expect((await recommender.take("s1")).map(rec => rec.resources.map(r => r.id))).toEqual([["ff-1", "ff-2"]]);
+    expect(await recommender.take("s1")).toEqual([]);
+
+    await recommender.onAgentEnd([user("post this to slack"), reply("Done.")], "s1");
+    expect(await recommender.take("s1")).toEqual([]);
+    await recommender.onAgentEnd([user("post this to slack"), reply("Done.")], "s2");
+    expect((await recommender.take("s2"))[0].resources.map(r => r.id)).toEqual(["sl-1"]);
+  });
+
+  it("never suggests a dismissed resource again", async () => {
+    await new AutoRecommender(mockClient(catalog), { maxResults: 5, maxPerSession: 3 }).dismiss("ff-1");
+    const recommender = new AutoRecommender(mockClient(catalog), { maxResults: 5, maxPerSession: 3 });
+    await recommender.onToolCall("exec", "bash: ffmpeg: command not found", undefined, "s1");
+    expect((await recommender.take("s1"))[0].resources.map(r => r.id)).toEqual(["ff-2"]);
+  });
+});
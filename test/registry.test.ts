@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { RegistrySet } from "../src/registry.js";
+import { resource, mockClient } from "./helpers.js";
+
+/** 150 "tool-N" skills listed by one registry. */
+const catalog = Array.from({ length: 150 }, (_, i) => resource({ id: `res-${i}`, name: `tool-${i}`, slug: `tool-${i}` }));
+
+describe("RegistrySet.search", () => {
+  it("never asks a registry for more than a page of results at once", async () => {
+    const client = mockClient(catalog);
+    const other = mockClient([resource({ id: "other", name: "tool-other", slug: "tool-other" })]);
+    const set = new RegistrySet([
+      { id: "vibeindex", trust: "standard", registry: client },
+      { id: "mirror", trust: "standard", registry: other },
+    ]);
+    const page = await set.search("tool", { limit: 50, offset: 100 });
+    expect(page.data.map(r => r.id)).toEqual(catalog.slice(100, 150).map(r => r.id));
+    expect(page.pagination?.total).toBe(151);
+    for (const [, opts] of client.search.mock.calls) expect(opts?.limit).toBeLessThanOrEqual(50);
+    expect(client.search).toHaveBeenCalledTimes(3);
+  });
+
+  it("continues each registry from where the previous page left it", async () => {
+    const client = mockClient(catalog);
+    const set = new RegistrySet([{ id: "vibeindex", trust: "standard", registry: client }]);
+    const ids: string[] = [];
+    for (let offset = 0; offset < 150; offset += 50) {
+      ids.push(...(await set.search("tool", { limit: 50, offset })).data.map(r => r.id));
+    }
+    expect(ids).toEqual(catalog.map(r => r.id));
+    expect(client.search.mock.calls.map(([, opts]) => opts?.offset)).toEqual([0, 50, 100]);
+  });
+
+  it("starts over when a search is repeated from the first page", async () => {
+    const client = mockClient(catalog);
+    const set = new RegistrySet([{ id: "vibeindex", trust: "standard", registry: client }]);
+    await set.search("tool", { limit: 50 });
+    await set.search("tool", { limit: 50 });
+    expect(client.search).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("RegistrySet.getResource", () => {
+  it("keeps ids from different registries apart", async () => {
+    const index = mockClient([resource({ id: "res-1", name: "weather", slug: "weather" })]);
+    const mirror = mockClient([resource({ id: "res-1", name: "calendar", slug: "calendar" })]);
+    const set = new RegistrySet([
+      { id: "vibeindex", trust: "standard", registry: index },
+      { id: "mirror", trust: "trusted", registry: mirror },
+    ]);
+    const found = await set.search("a", { limit: 10 });
+    expect(found.data.map(r => [r.id, r.name])).toEqual([["mirror:res-1", "calendar"], ["res-1", "weather"]]);
+    expect((await set.getResource("mirror:res-1")).data).toMatchObject({ id: "mirror:res-1", name: "calendar", registry: "mirror" });
+    expect((await set.getResource("res-1")).data).toMatchObject({ id: "res-1", name: "weather", registry: "vibeindex" });
+    await expect(set.getResource("mirror:res-2")).rejects.toThrow(/404/);
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, it, expect } from "vitest";
+import { installMcpServer, restoreResource, uninstallResource, listInstalledResources } from "../src/resource-installer.js";
+import { memoryConfig } from "./helpers.js";
+
+describe("restoreResource", () => {
+  it("puts back the MCP server entry a forced reinstall replaced", async () => {
+    const config = memoryConfig();
+    await installMcpServer(config, "files", "npx -y @acme/files-server", "github:acme/files", { resourceId: "mcp-1" });
+    const result = await installMcpServer(config, "files", "npx -y @acme/files-server@2", "github:acme/files", { force: true, resourceId: "mcp-1" });
+    expect(result.previous?.entry).toEqual({ command: "npx", args: ["-y", "@acme/files-server"] });
+
+    await restoreResource(config, result.previous!);
+    expect((config.loadConfig() as { mcp: { servers: Record<string, unknown> } }).mcp.servers.files)
+      .toEqual({ command: "npx", args: ["-y", "@acme/files-server"] });
+    expect(await listInstalledResources()).toMatchObject([{ configKey: "files", installCommand: "npx -y @acme/files-server", resourceId: "mcp-1" }]);
+    await uninstallResource(config, "mcp", "files");
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { searchResources, matchesFilters } from "../src/search.js";
+import { resource, mockClient } from "./helpers.js";
+
+/** 120 "tool-N" skills; every third is official and tagged "api", stars and update times vary. */
+const catalog = Array.from({ length: 120 }, (_, i) => resource({
+  id: `res-${i}`,
+  name: `tool-${i}`,
+  slug: `tool-${i}`,
+  stars: (i * 37) % 101,
+  tags: i % 3 === 0 ? ["api"] : [],
+  is_official: i % 3 === 0,
+  updated_at: new Date(Date.UTC(2026, 0, 1 + (i % 30))).toISOString(),
+}));
+
+describe("matchesFilters", () => {
+  it("applies every filter", () => {
+    const r = resource({ tags: ["API", "http"], stars: 50, github_owner: "acme-labs", security_score: 10 });
+    expect(matchesFilters(r, { tags: ["api"], minStars: 50, publisher: "acme-*", maxSecurityScore: 10 })).toBe(true);
+    expect(matchesFilters(r, { tags: ["api", "db"] })).toBe(false);
+    expect(matchesFilters(r, { minStars: 51 })).toBe(false);
+    expect(matchesFilters(r, { official: true })).toBe(false);
+    expect(matchesFilters(r, { publisher: "acme" })).toBe(false);
+    expect(matchesFilters(r, { maxSecurityScore: 5 })).toBe(false);
+    expect(matchesFilters(resource({ cisco_scan_result: { is_safe: false, max_severity: "HIGH", findings_count: 1 } }), { maxSecurityScore: 100 })).toBe(false);
+    expect(matchesFilters(resource({ security_score: null }), { scannedOnly: true })).toBe(false);
+  });
+});
+
+describe("searchResources", () => {
+  it("pages through the registry with a cursor", async () => {
+    const client = mockClient(catalog);
+    const first = await searchResources(client, "tool", { limit: 5 });
+    expect(first.data.map(r => r.id)).toEqual(["res-0", "res-1", "res-2", "res-3", "res-4"]);
+    expect(first.total).toBe(120);
+    const second = await searchResources(client, "tool", { limit: 5, cursor: first.nextCursor! });
+    expect(second.data[0].id).toBe("res-5");
+    expect(client.search).toHaveBeenLastCalledWith("tool", { type: undefined, limit: 5, offset: 5 });
+  });
+
+  it("filters client-side across batches and resumes after the last result", async () => {
+    const client = mockClient(catalog);
+    const first = await searchResources(client, "tool", { limit: 3, filters: { official: true, minStars: 50 } });
+    const ids = first.data.map(r => Number(r.id.slice(4)));
+    expect(ids.every(i => i % 3 === 0 && (i * 37) % 101 >= 50)).toBe(true);
+    const second = await searchResources(client, "tool", { limit: 3, filters: { official: true, minStars: 50 }, cursor: first.nextCursor! });
+    expect(Number(second.data[0].id.slice(4))).toBeGreaterThan(ids[2]);
+    const rest = await searchResources(client, "tool", { limit: 100, filters: { official: true, minStars: 50 }, cursor: second.nextCursor! });
+    expect(rest.nextCursor).toBeNull();
+    const all = [...first.data, ...second.data, ...rest.data].map(r => r.id);
+    expect(new Set(all).size).toBe(all.length);
+    expect(all).toHaveLength(catalog.filter(r => matchesFilters(r, { official: true, minStars: 50 })).length);
+  });
+
+  it("sorts by stars and recency", async () => {
+    const client = mockClient(catalog);
+    const byStars = await searchResources(client, "tool", { limit: 10, sort: "stars" });
+    const stars = byStars.data.map(r => r.stars);
+    expect(stars).toEqual([...stars].sort((a, b) => b - a));
+    expect(stars[0]).toBe(Math.max(...catalog.map(r => r.stars)));
+    const next = await searchResources(client, "tool", { limit: 10, sort: "stars", cursor: byStars.nextCursor! });
+    expect(next.data[0].stars).toBeLessThanOrEqual(stars[9]);
+    const recent = await searchResources(client, "tool", { limit: 1, sort: "recency" });
+    expect(recent.data[0].updated_at).toBe("2026-01-30T00:00:00.000Z");
+  });
+
+  it("rejects a cursor from another search", async () => {
+    const client = mockClient(catalog);
+    const first = await searchResources(client, "tool", { limit: 5 });
+    await expect(searchResources(client, "tool", { limit: 5, sort: "stars", cursor: first.nextCursor! }))
+      .rejects.toThrow("cursor does not belong to this search");
+  });
+});
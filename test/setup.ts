@@ -0,0 +1,9 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterAll } from "vitest";
+
+const stateDir = mkdtempSync(path.join(os.tmpdir(), "vibeclaw-test-"));
+process.env.OPENCLAW_STATE_DIR = stateDir;
+
+afterAll(() => rmSync(stateDir, { recursive: true, force: true }));
@@ -0,0 +1,100 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { describe, it, expect, afterEach } from "vitest";
+import { pathToFileURL } from "node:url";
+import { listUnmanagedSkills, installSkillFromSource, syncFromLockfile, uninstallSkill, rollbackSkill, setSkillEnabled, checkSkillUpdate } from "../src/skill-installer.js";
+import { parseSkillSource } from "../src/skill-sources.js";
+import { SKILLS_DIR, LOCKFILE_PATH, BACKUP_DIR, DISABLED_DIR } from "../src/paths.js";
+import { readLockfile } from "../src/lockfile.js";
+import { writeSkillSource } from "./helpers.js";
+
+async function writeUnmanaged(name: string, files: Record<string, string | Buffer> = {}): Promise<void> {
+  const dir = path.join(SKILLS_DIR, name);
+  for (const [file, content] of Object.entries({ "SKILL.md": `---\nname: ${name}\n---\n`, ...files })) {
+    await fs.mkdir(path.dirname(path.join(dir, file)), { recursive: true });
+    await fs.writeFile(path.join(dir, file), content);
+  }
+}
+
+afterEach(async () => {
+  await fs.rm(SKILLS_DIR, { recursive: true, force: true });
+  await fs.rm(LOCKFILE_PATH, { force: true });
+  await fs.rm(BACKUP_DIR, { recursive: true, force: true });
+  await fs.rm(DISABLED_DIR, { recursive: true, force: true });
+});
+
+describe("listUnmanagedSkills", () => {
+  it("leaves out skills over the install limits", async () => {
+    await writeUnmanaged("small", { "notes.md": "hello\n" });
+    await writeUnmanaged("huge-file", { "data.bin": Buffer.alloc(2 * 1024 * 1024) });
+    await writeUnmanaged("many-files", Object.fromEntries(Array.from({ length: 120 }, (_, i) => [`refs/${i}.md`, "x"])));
+    const skills = await listUnmanagedSkills();
+    expect(skills.map(skill => skill.dirName)).toEqual(["small"]);
+    expect(skills[0].files.map(file => file.path).sort()).toEqual(["SKILL.md", "notes.md"]);
+  });
+});
+
+describe("syncFromLockfile", () => {
+  it("refuses to install or sync over a lockfile it can't parse", async () => {
+    const conflicted = `{\n<<<<<<< HEAD\n  "skills": {}\n=======\n>>>>>>> main\n}\n`;
+    await fs.mkdir(path.dirname(LOCKFILE_PATH), { recursive: true });
+    await fs.writeFile(LOCKFILE_PATH, conflicted);
+    const source = parseSkillSource(pathToFileURL(await writeSkillSource("weather")).href)!;
+    const result = await installSkillFromSource(source, "weather");
+    expect(result).toMatchObject({ success: false, error: expect.stringContaining("is not valid JSON") });
+    await expect(fs.access(path.join(SKILLS_DIR, "weather"))).rejects.toThrow();
+    await expect(syncFromLockfile()).rejects.toThrow(/is not valid JSON/);
+    expect(await fs.readFile(LOCKFILE_PATH, "utf-8")).toBe(conflicted);
+  });
+
+  it("installs a locked skill only once the check lets it through", async () => {
+    const source = parseSkillSource(pathToFileURL(await writeSkillSource("weather")).href)!;
+    expect((await installSkillFromSource(source, "weather")).success).toBe(true);
+    await fs.rm(path.join(SKILLS_DIR, "weather"), { recursive: true });
+
+    const checked: string[] = [];
+    const [blocked] = await syncFromLockfile({
+      check: async prepared => {
+        checked.push(prepared.skillName);
+        return { gate: "source", reason: "file sources are not allowed" };
+      },
+    });
+    expect(checked).toEqual(["weather"]);
+    expect(blocked).toMatchObject({ success: false, skillName: "weather", blocked: { gate: "source" } });
+    await expect(fs.access(path.join(SKILLS_DIR, "weather"))).rejects.toThrow();
+
+    const [synced] = await syncFromLockfile({ check: async () => null });
+    expect(synced.success).toBe(true);
+    await expect(fs.access(path.join(SKILLS_DIR, "weather", "SKILL.md"))).resolves.toBeUndefined();
+  });
+});
+
+describe("uninstallSkill", () => {
+  it("drops the backup so a rollback can't bring the skill back", async () => {
+    const dir = await writeSkillSource("weather");
+    const source = parseSkillSource(pathToFileURL(dir).href)!;
+    expect((await installSkillFromSource(source, "weather")).success).toBe(true);
+    await fs.writeFile(path.join(dir, "notes.md"), "v2\n");
+    expect((await installSkillFromSource(source, "weather", { force: true })).replaced).toBe(true);
+
+    expect(await uninstallSkill("weather")).toBe(true);
+    expect((await rollbackSkill("weather")).success).toBe(false);
+    await expect(fs.access(path.join(SKILLS_DIR, "weather"))).rejects.toThrow();
+    expect(await readLockfile()).toEqual({ lockfileVersion: 1, skills: {} });
+  });
+});
+
+describe("checkSkillUpdate", () => {
+  it("diffs a disabled skill against its installed SKILL.md", async () => {
+    const dir = await writeSkillSource("weather");
+    expect((await installSkillFromSource(parseSkillSource(pathToFileURL(dir).href)!, "weather")).success).toBe(true);
+    expect((await setSkillEnabled("weather", false)).success).toBe(true);
+    await fs.appendFile(path.join(dir, "SKILL.md"), "Now with forecasts.\n");
+
+    const check = await checkSkillUpdate("weather");
+    if ("error" in check) throw new Error(check.error);
+    expect(check.modified).toEqual(["SKILL.md"]);
+    const added = check.skillMdDiff.split("\n").filter(line => line.startsWith("+") && !line.startsWith("+++"));
+    expect(added).toEqual(["+Now with forecasts."]);
+  });
+});
@@ -0,0 +1,87 @@
+import { existsSync, promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { gzipSync } from "node:zlib";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { parseSkillSource, openSnapshot, listDirectoryFiles } from "../src/skill-sources.js";
+
+/** A ustar archive of regular files; only the fields parseTar reads are filled in. */
+function tar(files: Record<string, string>): Buffer {
+  const blocks = Object.entries(files).flatMap(([name, content]) => {
+    const header = Buffer.alloc(512);
+    header.write(name, 0, 100, "utf-8");
+    header.write(Buffer.byteLength(content).toString(8).padStart(11, "0"), 124, 12, "latin1");
+    header.write("0", 156, 1, "latin1");
+    header.write("ustar\0", 257, 6, "latin1");
+    const body = Buffer.alloc(Math.ceil(Buffer.byteLength(content) / 512) * 512);
+    body.write(content, "utf-8");
+    return [header, body];
+  });
+  return Buffer.concat([...blocks, Buffer.alloc(1024)]);
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("parseSkillSource", () => {
+  it("parses every supported form", () => {
+    expect(parseSkillSource("github:acme/skills#v1.2")).toEqual({ kind: "github", owner: "acme", repo: "skills", ref: "v1.2" });
+    expect(parseSkillSource("https://github.com/acme/skills.git")).toEqual({ kind: "github", owner: "acme", repo: "skills", ref: undefined });
+    expect(parseSkillSource("git+https://git.example.com/team/skills.git#release/2")).toEqual({ kind: "git", url: "https://git.example.com/team/skills.git", ref: "release/2" });
+    expect(parseSkillSource("https://git.example.com/team/skills.git")).toEqual({ kind: "git", url: "https://git.example.com/team/skills.git", ref: undefined });
+    expect(parseSkillSource("git@git.example.com:team/skills.git#main")).toEqual({ kind: "git", url: "git@git.example.com:team/skills.git", ref: "main" });
+    expect(parseSkillSource("ssh://git@git.example.com/team/skills.git")).toEqual({ kind: "git", url: "ssh://git@git.example.com/team/skills.git", ref: undefined });
+    expect(parseSkillSource("https://cdn.example.com/skill.tar.gz")).toEqual({ kind: "tarball", url: "https://cdn.example.com/skill.tar.gz" });
+    expect(parseSkillSource("tarball+https://cdn.example.com/archive?id=3")).toEqual({ kind: "tarball", url: "https://cdn.example.com/archive?id=3" });
+    expect(parseSkillSource("file:///opt/skills/weather")).toEqual({ kind: "file", path: "/opt/skills/weather" });
+    expect(parseSkillSource("https://example.com/skills")).toBeNull();
+    expect(parseSkillSource("acme/skills")).toBeNull();
+  });
+
+  it("refuses urls and refs git would read as options", () => {
+    expect(parseSkillSource("git+--upload-pack=touch /tmp/pwned#.")).toBeNull();
+    expect(parseSkillSource("git+-oProxyCommand=sh")).toBeNull();
+    expect(parseSkillSource("-oProxyCommand=sh@host:repo.git")).toBeNull();
+    expect(parseSkillSource("git+https://git.example.com/team/skills.git#--upload-pack=sh")).toBeNull();
+    expect(parseSkillSource("github:acme/skills#main;rm -rf ~")).toBeNull();
+  });
+});
+
+describe("openSnapshot", () => {
+  it("refuses an option-like url or ref before running git", async () => {
+    const marker = path.join(os.tmpdir(), `vibeclaw-pwned-${process.pid}`);
+    await expect(openSnapshot({ kind: "git", url: `--upload-pack=touch ${marker}` }, { ref: "main" })).rejects.toThrow(/Refusing git URL/);
+    await expect(openSnapshot({ kind: "git", url: "https://git.example.com/team/skills.git" }, { ref: `--upload-pack=touch ${marker}` }))
+      .rejects.toThrow(/Refusing git ref/);
+    expect(existsSync(marker)).toBe(false);
+  });
+
+  it("extracts a gzipped tarball from under its top-level directory", async () => {
+    const archive = gzipSync(tar({ "skills-main/SKILL.md": "# weather\n", "skills-main/refs/api.md": "x".repeat(600) }));
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(new Uint8Array(archive))));
+    const snapshot = await openSnapshot({ kind: "tarball", url: "https://cdn.example.com/skill.tgz" });
+    expect(snapshot.files).toEqual([{ path: "SKILL.md", size: 10 }, { path: "refs/api.md", size: 600 }]);
+    expect((await snapshot.read("refs/api.md")).toString()).toBe("x".repeat(600));
+  });
+
+  it("drops tarball entries that escape the archive root", async () => {
+    const archive = tar({ "SKILL.md": "# weather\n", "../outside.md": "x", "/etc/cron.d/evil": "x", "refs/../../up.md": "x" });
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(new Uint8Array(archive))));
+    const snapshot = await openSnapshot({ kind: "tarball", url: "https://cdn.example.com/skill.tar" });
+    expect(snapshot.files.map(file => file.path)).toEqual(["SKILL.md"]);
+  });
+});
+
+describe("listDirectoryFiles", () => {
+  it("stops walking once the tree is over the limit", async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "vibeclaw-tree-"));
+    for (const dir of ["a", "b", "c"]) {
+      await fs.mkdir(path.join(root, dir));
+      for (const file of ["1.md", "2.md", "3.md"]) await fs.writeFile(path.join(root, dir, file), "x");
+    }
+    expect(await listDirectoryFiles(root, 4)).toHaveLength(5);
+    expect(await listDirectoryFiles(root)).toHaveLength(9);
+    await fs.rm(root, { recursive: true, force: true });
+  });
+});
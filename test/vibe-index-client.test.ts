@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { VibeIndexClient } from "../src/vibe-index-client.js";
+import type { ResponseCache } from "../src/response-cache.js";
+
+const page = { success: true, data: [], pagination: { limit: 5, offset: 0, total: 0 } };
+
+/** A 200 response that sends its headers and one chunk, then stalls until the request is aborted. */
+function stalledResponse(signal: AbortSignal): Response {
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode(`{"success": true, `));
+      signal.addEventListener("abort", () => controller.error(new DOMException("aborted", "AbortError")));
+    },
+  });
+  return new Response(body, { status: 200 });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("VibeIndexClient", () => {
+  it("times out a response whose body stalls", async () => {
+    vi.stubGlobal("fetch", vi.fn(async (_url: string, init: RequestInit) => stalledResponse(init.signal!)));
+    const client = new VibeIndexClient(undefined, undefined, { timeoutMs: 50, maxRetries: 0 });
+    await expect(client.search("weather")).rejects.toThrow("Request timed out after 50ms");
+  });
+
+  it("releases the body of a response it retries", async () => {
+    const failed = new Response("upstream down", { status: 503 });
+    const cancel = vi.spyOn(failed.body!, "cancel");
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(failed)
+      .mockResolvedValueOnce(new Response(JSON.stringify(page), { status: 200 }));
+    vi.stubGlobal("fetch", fetch);
+    const client = new VibeIndexClient(undefined, undefined, { maxRetries: 1 });
+    expect(await client.search("weather")).toEqual(page);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  it("serves stale searches during an outage, but never stale resource lookups", async () => {
+    const resource = { success: true, data: { id: "res-1", security_score: 0 } };
+    const cache = {
+      get: async (url: string) => ({ url, storedAt: 0, body: url.includes("/resources/") ? resource : page }),
+      set: async () => {},
+    } as unknown as ResponseCache;
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("", { status: 503, statusText: "Service Unavailable" })));
+    const client = new VibeIndexClient(undefined, undefined, { cache, maxRetries: 0 });
+    expect(await client.search("weather")).toMatchObject({ ...page, cached: { reason: "stale-on-error" } });
+    await expect(client.getResource("res-1")).rejects.toThrow(/503/);
+  });
+});
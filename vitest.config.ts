@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["test/**/*.test.ts"],
+    // Gives every test file its own state dir before src/paths.ts reads the environment
+    setupFiles: ["test/setup.ts"],
+  },
+});